@@ -15,6 +15,7 @@ CREATE TABLE analysis_runs (
   repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
   status text NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
   options jsonb NOT NULL DEFAULT '{}'::jsonb,
+  scoring_profile jsonb,
   created_at timestamptz NOT NULL DEFAULT now(),
   started_at timestamptz,
   completed_at timestamptz,
@@ -32,14 +33,58 @@ CREATE TABLE commits (
   author_email text,
   committed_at timestamptz NOT NULL,
   message text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  parent_count integer NOT NULL DEFAULT 1,
+  is_merge boolean GENERATED ALWAYS AS (parent_count > 1) STORED,
   classification text NOT NULL DEFAULT 'unknown'
     CHECK (classification IN ('feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'revert', 'chore', 'unknown')),
+  classification_confidence real NOT NULL DEFAULT 0,
+  classification_signal text,
+  classification_source text NOT NULL DEFAULT 'auto'
+    CHECK (classification_source IN ('auto', 'manual')),
+  breaking boolean NOT NULL DEFAULT false,
+  semver_bump text GENERATED ALWAYS AS (
+    CASE
+      WHEN breaking THEN 'major'
+      WHEN classification = 'feat' THEN 'minor'
+      WHEN classification IN ('fix', 'perf', 'revert') THEN 'patch'
+      ELSE 'none'
+    END
+  ) STORED,
   created_at timestamptz NOT NULL DEFAULT now()
 );
 
 CREATE UNIQUE INDEX commits_repository_sha_idx ON commits(repository_id, sha);
 CREATE INDEX commits_repository_committed_at_idx ON commits(repository_id, committed_at);
 
+CREATE TABLE ingestion_state (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  branch text NOT NULL,
+  last_sha text NOT NULL,
+  history_mode text NOT NULL DEFAULT 'all'
+    CHECK (history_mode IN ('all', 'first-parent', 'no-merges')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One high-water mark per repository: commits are pruned repository-wide, so
+-- the state tracks the single branch whose history the commits table holds.
+CREATE UNIQUE INDEX ingestion_state_repository_idx
+  ON ingestion_state(repository_id);
+
+CREATE TABLE commit_trailers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  commit_id uuid NOT NULL REFERENCES commits(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  value text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX commit_trailers_commit_key_value_idx
+  ON commit_trailers(commit_id, key, value);
+CREATE INDEX commit_trailers_key_idx ON commit_trailers(key);
+
 CREATE TABLE file_changes (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   commit_id uuid NOT NULL REFERENCES commits(id) ON DELETE CASCADE,
@@ -52,6 +97,21 @@ CREATE INDEX file_changes_commit_id_idx ON file_changes(commit_id);
 CREATE INDEX file_changes_file_path_idx ON file_changes(file_path);
 CREATE UNIQUE INDEX file_changes_commit_path_idx ON file_changes(commit_id, file_path);
 
+CREATE TABLE file_renames (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  commit_id uuid NOT NULL REFERENCES commits(id) ON DELETE CASCADE,
+  old_path text NOT NULL,
+  new_path text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX file_renames_commit_paths_idx
+  ON file_renames(commit_id, old_path, new_path);
+CREATE INDEX file_renames_repository_id_idx ON file_renames(repository_id);
+CREATE INDEX file_renames_repository_old_path_idx
+  ON file_renames(repository_id, old_path);
+
 CREATE TABLE file_metrics (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
@@ -73,6 +133,24 @@ CREATE INDEX file_metrics_repository_hotspot_idx
 CREATE INDEX file_metrics_repository_fragility_idx
   ON file_metrics(repository_id, fragility_index DESC);
 
+CREATE TABLE file_metrics_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  analysis_run_id uuid NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
+  file_path text NOT NULL,
+  touches integer NOT NULL DEFAULT 0,
+  churn integer NOT NULL DEFAULT 0,
+  hotspot_score numeric(6, 4) NOT NULL DEFAULT 0,
+  fragility_index numeric(6, 4) NOT NULL DEFAULT 0,
+  bugfix_ratio numeric(6, 4) NOT NULL DEFAULT 0,
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX file_metrics_history_run_path_idx
+  ON file_metrics_history(analysis_run_id, file_path);
+CREATE INDEX file_metrics_history_repo_path_idx
+  ON file_metrics_history(repository_id, file_path);
+
 CREATE TABLE contributors (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
@@ -84,12 +162,30 @@ CREATE TABLE contributors (
 CREATE UNIQUE INDEX contributors_repository_name_email_idx
   ON contributors(repository_id, name, email);
 
+CREATE TABLE contributor_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  contributor_id uuid NOT NULL REFERENCES contributors(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  email text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Identities without an email are still one alias each.
+CREATE UNIQUE INDEX contributor_aliases_repository_name_email_idx
+  ON contributor_aliases(repository_id, name, COALESCE(email, ''));
+CREATE INDEX contributor_aliases_contributor_id_idx
+  ON contributor_aliases(contributor_id);
+
 CREATE TABLE file_ownership (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
   file_path text NOT NULL,
   contributor_id uuid NOT NULL REFERENCES contributors(id) ON DELETE CASCADE,
+  attribution text NOT NULL DEFAULT 'author'
+    CHECK (attribution IN ('author', 'coauthor')),
   touches integer NOT NULL DEFAULT 0,
+  credit numeric(12, 4) NOT NULL DEFAULT 0,
   churn integer NOT NULL DEFAULT 0,
   contribution_share numeric(6, 4) NOT NULL DEFAULT 0,
   created_at timestamptz NOT NULL DEFAULT now(),
@@ -97,7 +193,7 @@ CREATE TABLE file_ownership (
 );
 
 CREATE UNIQUE INDEX file_ownership_repo_file_contributor_idx
-  ON file_ownership(repository_id, file_path, contributor_id);
+  ON file_ownership(repository_id, file_path, contributor_id, attribution);
 CREATE INDEX file_ownership_repo_file_idx
   ON file_ownership(repository_id, file_path);
 
@@ -105,7 +201,12 @@ CREATE TABLE complexity_snapshots (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
   commit_sha text NOT NULL,
+  sampling_strategy text NOT NULL DEFAULT 'by-commit'
+    CHECK (sampling_strategy IN ('by-commit', 'weekly', 'monthly', 'tags')),
+  bucket_label text,
   file_path text NOT NULL,
+  canonical_path text,
+  analyzer text NOT NULL DEFAULT 'typescript',
   functions integer NOT NULL DEFAULT 0,
   conditionals integer NOT NULL DEFAULT 0,
   max_nesting integer NOT NULL DEFAULT 0,
@@ -118,6 +219,114 @@ CREATE INDEX complexity_snapshots_repo_commit_idx
 CREATE INDEX complexity_snapshots_repo_file_idx
   ON complexity_snapshots(repository_id, file_path);
 
+CREATE TABLE function_complexity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  commit_sha text NOT NULL,
+  file_path text NOT NULL,
+  canonical_path text,
+  function_name text NOT NULL,
+  start_line integer NOT NULL,
+  end_line integer NOT NULL,
+  parameters integer NOT NULL DEFAULT 0,
+  cyclomatic integer NOT NULL DEFAULT 1,
+  cognitive integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX function_complexity_repo_commit_idx
+  ON function_complexity(repository_id, commit_sha);
+CREATE INDEX function_complexity_repo_function_idx
+  ON function_complexity(repository_id, canonical_path, function_name);
+
+CREATE TABLE file_coupling (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  file_a text NOT NULL,
+  file_b text NOT NULL,
+  shared_commits integer NOT NULL DEFAULT 0,
+  revisions_a integer NOT NULL DEFAULT 0,
+  revisions_b integer NOT NULL DEFAULT 0,
+  average_revisions numeric(10, 2) NOT NULL DEFAULT 0,
+  degree numeric(6, 4) NOT NULL DEFAULT 0,
+  support numeric(6, 4) NOT NULL DEFAULT 0,
+  confidence_a_to_b numeric(6, 4) NOT NULL DEFAULT 0,
+  confidence_b_to_a numeric(6, 4) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX file_coupling_repository_pair_idx
+  ON file_coupling(repository_id, file_a, file_b);
+CREATE INDEX file_coupling_repository_file_b_idx
+  ON file_coupling(repository_id, file_b);
+CREATE INDEX file_coupling_repository_degree_idx
+  ON file_coupling(repository_id, degree DESC);
+
+CREATE TABLE bug_introductions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  fix_commit_sha text NOT NULL,
+  introducing_commit_sha text NOT NULL,
+  file_path text NOT NULL,
+  lines integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX bug_introductions_unique_idx
+  ON bug_introductions(repository_id, fix_commit_sha, introducing_commit_sha, file_path);
+CREATE INDEX bug_introductions_repo_introducing_idx
+  ON bug_introductions(repository_id, introducing_commit_sha);
+
+CREATE TABLE classification_configs (
+  repository_id uuid PRIMARY KEY REFERENCES repositories(id) ON DELETE CASCADE,
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE commit_classification_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  commit_sha text NOT NULL,
+  previous_classification text,
+  classification text NOT NULL
+    CHECK (classification IN ('feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'revert', 'chore', 'unknown')),
+  changed_by text,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX commit_classification_overrides_repository_sha_idx
+  ON commit_classification_overrides(repository_id, commit_sha, created_at);
+
+CREATE TABLE repository_settings (
+  repository_id uuid PRIMARY KEY REFERENCES repositories(id) ON DELETE CASCADE,
+  settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  gitattributes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE scoring_profiles (
+  repository_id uuid PRIMARY KEY REFERENCES repositories(id) ON DELETE CASCADE,
+  profile jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE releases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  tag text NOT NULL,
+  commit_sha text NOT NULL,
+  tagged_at timestamptz,
+  annotated boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX releases_repo_tag_idx ON releases(repository_id, tag);
+CREATE INDEX releases_repo_commit_idx ON releases(repository_id, commit_sha);
+
 CREATE TABLE insights (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
@@ -142,10 +351,33 @@ CREATE TABLE quality_runs (
   files_analyzed integer NOT NULL DEFAULT 0,
   lines_analyzed integer NOT NULL DEFAULT 0,
   quality_grade text CHECK (quality_grade IN ('A', 'B', 'C', 'D', 'F')),
+  commit_sha text,
+  source text NOT NULL DEFAULT 'scanner' CHECK (source IN ('scanner', 'sarif')),
+  profile jsonb,
+  new_code_base_run_id uuid REFERENCES quality_runs(id) ON DELETE SET NULL,
+  new_code_lines integer,
+  new_findings_count integer,
+  new_code_grade text CHECK (new_code_grade IN ('A', 'B', 'C', 'D', 'F')),
+  gate_status text CHECK (gate_status IN ('passed', 'failed')),
+  gate_failures jsonb,
   error_message text,
   created_at timestamptz NOT NULL DEFAULT now()
 );
 
+CREATE TABLE quality_profiles (
+  repository_id uuid PRIMARY KEY REFERENCES repositories(id) ON DELETE CASCADE,
+  profile jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE quality_gates (
+  repository_id uuid PRIMARY KEY REFERENCES repositories(id) ON DELETE CASCADE,
+  conditions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
 CREATE TABLE quality_findings (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   quality_run_id uuid NOT NULL REFERENCES quality_runs(id) ON DELETE CASCADE,
@@ -157,6 +389,12 @@ CREATE TABLE quality_findings (
   category text NOT NULL CHECK (category IN ('bug', 'security', 'code_smell', 'performance')),
   message text NOT NULL,
   language text,
+  tool text NOT NULL DEFAULT 'code-archaeology',
+  enclosing_function text,
+  fingerprint text,
+  suppressed boolean NOT NULL DEFAULT false,
+  suppression_reason text,
+  baselined boolean NOT NULL DEFAULT false,
   created_at timestamptz NOT NULL DEFAULT now()
 );
 
@@ -172,7 +410,26 @@ CREATE TABLE quality_file_stats (
   code_smells integer NOT NULL DEFAULT 0
 );
 
+CREATE TABLE quality_baselines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  fingerprint text NOT NULL,
+  tool text NOT NULL,
+  rule_id text NOT NULL,
+  file_path text NOT NULL,
+  message text NOT NULL,
+  -- Copies of the fingerprint that are accepted; further copies are new.
+  occurrences integer NOT NULL DEFAULT 1 CHECK (occurrences > 0),
+  quality_run_id uuid REFERENCES quality_runs(id) ON DELETE SET NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
 CREATE INDEX quality_runs_repository_id_idx ON quality_runs(repository_id);
 CREATE INDEX quality_findings_run_id_idx ON quality_findings(quality_run_id);
 CREATE INDEX quality_findings_file_idx ON quality_findings(file_path);
+CREATE INDEX quality_findings_run_fingerprint_idx
+  ON quality_findings(quality_run_id, fingerprint);
 CREATE INDEX quality_file_stats_run_id_idx ON quality_file_stats(quality_run_id);
+CREATE UNIQUE INDEX quality_baselines_repo_fingerprint_idx
+  ON quality_baselines(repository_id, fingerprint);
@@ -10,15 +10,24 @@ export const envSchema = {
     GITHUB_TOKEN: { type: "string", default: "" },
     ANALYSIS_MAX_COMMITS: { type: "number", default: 5000 },
     ANALYSIS_RECENT_DAYS: { type: "number", default: 90 },
+    FILE_METRICS_HISTORY_RUNS: { type: "number", default: 30 },
     COMPLEXITY_SNAPSHOT_INTERVAL: { type: "number", default: 50 },
     COMPLEXITY_MAX_SNAPSHOTS: { type: "number", default: 20 },
     COMPLEXITY_MAX_FILES: { type: "number", default: 200 },
     COMPLEXITY_MAX_FILE_BYTES: { type: "number", default: 200000 },
+    COMPLEXITY_SAMPLING: { type: "string", default: "by-commit" },
+    SZZ_MAX_FIX_COMMITS: { type: "number", default: 200 },
+    COUPLING_MAX_FILES_PER_COMMIT: { type: "number", default: 30 },
+    COUPLING_MIN_SHARED: { type: "number", default: 3 },
     HOTSPOT_THRESHOLD: { type: "number", default: 0.6 },
     FRAGILITY_THRESHOLD: { type: "number", default: 0.6 },
+    COUPLING_THRESHOLD: { type: "number", default: 0.6 },
     INSIGHTS_MAX_PER_CATEGORY: { type: "number", default: 5 },
     BUS_FACTOR_TOUCH_THRESHOLD: { type: "number", default: 10 },
     BUS_FACTOR_SHARE_THRESHOLD: { type: "number", default: 0.7 },
+    INSIGHTS_OWNERSHIP_VIEW: { type: "string", default: "author" },
+    OWNERSHIP_COAUTHOR_WEIGHTING: { type: "string", default: "equal" },
+    OWNERSHIP_AUTHOR_WEIGHT: { type: "number", default: 0.5 },
     QUALITY_WORKER_URL: { type: "string", default: "" },
   },
 } as const;
@@ -32,15 +41,24 @@ export type EnvConfig = {
   GITHUB_TOKEN: string;
   ANALYSIS_MAX_COMMITS: number;
   ANALYSIS_RECENT_DAYS: number;
+  FILE_METRICS_HISTORY_RUNS: number;
   COMPLEXITY_SNAPSHOT_INTERVAL: number;
   COMPLEXITY_MAX_SNAPSHOTS: number;
   COMPLEXITY_MAX_FILES: number;
   COMPLEXITY_MAX_FILE_BYTES: number;
+  COMPLEXITY_SAMPLING: string;
+  SZZ_MAX_FIX_COMMITS: number;
+  COUPLING_MAX_FILES_PER_COMMIT: number;
+  COUPLING_MIN_SHARED: number;
   HOTSPOT_THRESHOLD: number;
   FRAGILITY_THRESHOLD: number;
+  COUPLING_THRESHOLD: number;
   INSIGHTS_MAX_PER_CATEGORY: number;
   BUS_FACTOR_TOUCH_THRESHOLD: number;
   BUS_FACTOR_SHARE_THRESHOLD: number;
+  INSIGHTS_OWNERSHIP_VIEW: string;
+  OWNERSHIP_COAUTHOR_WEIGHTING: string;
+  OWNERSHIP_AUTHOR_WEIGHT: number;
   QUALITY_WORKER_URL: string;
 };
 
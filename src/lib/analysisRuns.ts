@@ -45,6 +45,21 @@ export async function updateAnalysisRunStatus(
   );
 }
 
+/** Records the scoring profile the run's file metrics were computed with. */
+export async function recordAnalysisRunScoringProfile(
+  runId: string,
+  profile: Record<string, unknown>,
+): Promise<void> {
+  if (!runId) {
+    return;
+  }
+
+  await query("UPDATE analysis_runs SET scoring_profile = $2 WHERE id = $1", [
+    runId,
+    JSON.stringify(profile),
+  ]);
+}
+
 export async function getAnalysisRun(runId: string) {
   const result = await query<{
     id: string;
@@ -54,10 +69,30 @@ export async function getAnalysisRun(runId: string) {
     completed_at: string | null;
     error_message: string | null;
     options: Record<string, unknown>;
+    scoring_profile: Record<string, unknown> | null;
   }>(
-    "SELECT id, status, created_at, started_at, completed_at, error_message, options FROM analysis_runs WHERE id = $1",
+    "SELECT id, status, created_at, started_at, completed_at, error_message, options, scoring_profile FROM analysis_runs WHERE id = $1",
     [runId],
   );
 
   return result.rows[0] ?? null;
 }
+
+/**
+ * The latest succeeded run, which derived data rebuilt between runs (such as
+ * insights) stays attributed to.
+ */
+export async function getLatestAnalysisRunId(
+  repositoryId: string,
+): Promise<string | undefined> {
+  const result = await query<{ id: string }>(
+    `SELECT id
+     FROM analysis_runs
+     WHERE repository_id = $1 AND status = 'succeeded'
+     ORDER BY completed_at DESC NULLS LAST, created_at DESC
+     LIMIT 1`,
+    [repositoryId],
+  );
+
+  return result.rows[0]?.id;
+}
@@ -0,0 +1,53 @@
+import { query } from "./db.js";
+
+export type BugIntroductionInsert = {
+  fixCommitSha: string;
+  introducingCommitSha: string;
+  filePath: string;
+  lines: number;
+};
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export async function replaceBugIntroductions(
+  repositoryId: string,
+  rows: BugIntroductionInsert[],
+) {
+  await query("DELETE FROM bug_introductions WHERE repository_id = $1", [
+    repositoryId,
+  ]);
+
+  const chunks = chunkArray(rows, 500);
+
+  for (const chunk of chunks) {
+    const values: string[] = [];
+    const params: Array<string | number> = [];
+
+    chunk.forEach((row, index) => {
+      const base = index * 5;
+      values.push(
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5})`,
+      );
+      params.push(
+        repositoryId,
+        row.fixCommitSha,
+        row.introducingCommitSha,
+        row.filePath,
+        row.lines,
+      );
+    });
+
+    await query(
+      `INSERT INTO bug_introductions (repository_id, fix_commit_sha, introducing_commit_sha, file_path, lines)
+       VALUES ${values.join(",")}
+       ON CONFLICT DO NOTHING`,
+      params,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import type { ClassificationConfig } from "../services/classification.js";
+import { query } from "./db.js";
+
+export type StoredClassificationConfig = {
+  config: Partial<ClassificationConfig>;
+  updatedAt: string;
+};
+
+export async function getClassificationConfig(
+  repositoryId: string,
+): Promise<StoredClassificationConfig | null> {
+  const result = await query<{
+    config: Partial<ClassificationConfig>;
+    updated_at: string;
+  }>(
+    `SELECT config, updated_at
+     FROM classification_configs
+     WHERE repository_id = $1`,
+    [repositoryId],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return { config: row.config, updatedAt: row.updated_at };
+}
+
+export async function saveClassificationConfig(
+  repositoryId: string,
+  config: ClassificationConfig,
+) {
+  await query(
+    `INSERT INTO classification_configs (repository_id, config, updated_at)
+     VALUES ($1, $2::jsonb, now())
+     ON CONFLICT (repository_id)
+     DO UPDATE SET config = EXCLUDED.config, updated_at = now()`,
+    [repositoryId, JSON.stringify(config)],
+  );
+}
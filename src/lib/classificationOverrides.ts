@@ -0,0 +1,85 @@
+import type { CommitClassification } from "../services/classification.js";
+import { query } from "./db.js";
+
+export type ClassificationOverrideInsert = {
+  repositoryId: string;
+  commitSha: string;
+  previousClassification: string | null;
+  classification: CommitClassification;
+  changedBy: string | null;
+  reason: string | null;
+};
+
+export async function insertClassificationOverride(
+  override: ClassificationOverrideInsert,
+) {
+  const result = await query<{ id: string; created_at: string }>(
+    `INSERT INTO commit_classification_overrides
+       (repository_id, commit_sha, previous_classification, classification, changed_by, reason)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, created_at`,
+    [
+      override.repositoryId,
+      override.commitSha,
+      override.previousClassification,
+      override.classification,
+      override.changedBy,
+      override.reason,
+    ],
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Writes the latest override of each commit back onto `commits`. Overrides
+ * are keyed by SHA, so they also apply to commits re-inserted by a rewalk.
+ */
+export async function applyClassificationOverrides(
+  repositoryId: string,
+  commitSha: string | null = null,
+) {
+  const result = await query(
+    `UPDATE commits c
+     SET classification = o.classification,
+         classification_source = 'manual',
+         classification_confidence = 1,
+         classification_signal = 'manual'
+     FROM (
+       SELECT DISTINCT ON (commit_sha) commit_sha, classification
+       FROM commit_classification_overrides
+       WHERE repository_id = $1
+         AND ($2::text IS NULL OR commit_sha = $2)
+       ORDER BY commit_sha, created_at DESC
+     ) o
+     WHERE c.repository_id = $1
+       AND c.sha = o.commit_sha`,
+    [repositoryId, commitSha],
+  );
+
+  return result.rowCount ?? 0;
+}
+
+export async function listClassificationOverrides(
+  repositoryId: string,
+  commitSha: string | null = null,
+) {
+  const result = await query<{
+    id: string;
+    commit_sha: string;
+    previous_classification: string | null;
+    classification: string;
+    changed_by: string | null;
+    reason: string | null;
+    created_at: string;
+  }>(
+    `SELECT id, commit_sha, previous_classification, classification, changed_by, reason, created_at
+     FROM commit_classification_overrides
+     WHERE repository_id = $1
+       AND ($2::text IS NULL OR commit_sha = $2)
+     ORDER BY created_at DESC`,
+    [repositoryId, commitSha],
+  );
+
+  return result.rows;
+}
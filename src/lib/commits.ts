@@ -7,7 +7,25 @@ export type CommitInsert = {
   authorEmail: string;
   committedAt: string;
   message: string;
+  body: string;
+  parentCount: number;
   classification: CommitClassification;
+  classificationConfidence: number;
+  classificationSignal: string | null;
+  breaking: boolean;
+};
+
+export type ClassificationUpdate = {
+  commitId: string;
+  classification: CommitClassification;
+  confidence: number;
+  signal: string | null;
+};
+
+export type CommitTrailerInsert = {
+  commitId: string;
+  key: string;
+  value: string;
 };
 
 export type FileChangeInsert = {
@@ -37,12 +55,12 @@ export async function insertCommits(
 
   for (const chunk of insertChunks) {
     const values: string[] = [];
-    const params: Array<string | number | null> = [];
+    const params: Array<string | number | boolean | null> = [];
 
     chunk.forEach((commit, index) => {
-      const base = index * 7;
+      const base = index * 12;
       values.push(
-        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`,
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}, $${base + 11}, $${base + 12})`,
       );
       params.push(
         repositoryId,
@@ -51,18 +69,46 @@ export async function insertCommits(
         commit.authorEmail,
         commit.committedAt,
         commit.message,
+        commit.body,
+        commit.parentCount,
         commit.classification,
+        commit.classificationConfidence,
+        commit.classificationSignal,
+        commit.breaking,
       );
     });
 
     await query(
-      `INSERT INTO commits (repository_id, sha, author_name, author_email, committed_at, message, classification)
+      `INSERT INTO commits (repository_id, sha, author_name, author_email, committed_at, message, body, parent_count, classification, classification_confidence, classification_signal, breaking)
        VALUES ${values.join(",")}
        ON CONFLICT (repository_id, sha)
        DO UPDATE SET
-         classification = EXCLUDED.classification
-       WHERE commits.classification IN ('unknown', 'bugfix', 'feature', 'maintenance')
-         AND EXCLUDED.classification <> commits.classification`,
+         author_name = EXCLUDED.author_name,
+         author_email = EXCLUDED.author_email,
+         body = EXCLUDED.body,
+         parent_count = EXCLUDED.parent_count,
+         breaking = EXCLUDED.breaking,
+         classification = CASE
+           WHEN commits.classification_source = 'manual'
+             THEN commits.classification
+           WHEN commits.classification IN ('unknown', 'bugfix', 'feature', 'maintenance')
+             THEN EXCLUDED.classification
+           ELSE commits.classification
+         END,
+         classification_confidence = CASE
+           WHEN commits.classification_source = 'manual'
+             THEN commits.classification_confidence
+           WHEN commits.classification IN ('unknown', 'bugfix', 'feature', 'maintenance')
+             THEN EXCLUDED.classification_confidence
+           ELSE commits.classification_confidence
+         END,
+         classification_signal = CASE
+           WHEN commits.classification_source = 'manual'
+             THEN commits.classification_signal
+           WHEN commits.classification IN ('unknown', 'bugfix', 'feature', 'maintenance')
+             THEN EXCLUDED.classification_signal
+           ELSE commits.classification_signal
+         END`,
       params,
     );
   }
@@ -114,3 +160,67 @@ export async function insertFileChanges(fileChanges: FileChangeInsert[]) {
     );
   }
 }
+
+export async function insertCommitTrailers(trailers: CommitTrailerInsert[]) {
+  if (!trailers.length) {
+    return;
+  }
+
+  const chunks = chunkArray(trailers, 500);
+
+  for (const chunk of chunks) {
+    const values: string[] = [];
+    const params: string[] = [];
+
+    chunk.forEach((trailer, index) => {
+      const base = index * 3;
+      values.push(`($${base + 1}, $${base + 2}, $${base + 3})`);
+      params.push(trailer.commitId, trailer.key, trailer.value);
+    });
+
+    await query(
+      `INSERT INTO commit_trailers (commit_id, key, value)
+       VALUES ${values.join(",")}
+       ON CONFLICT DO NOTHING`,
+      params,
+    );
+  }
+}
+
+export async function deleteCommitsNotIn(
+  repositoryId: string,
+  keepShas: string[],
+): Promise<number> {
+  const result = await query(
+    "DELETE FROM commits WHERE repository_id = $1 AND NOT (sha = ANY($2))",
+    [repositoryId, keepShas],
+  );
+
+  return result.rowCount ?? 0;
+}
+
+export async function updateCommitClassifications(
+  repositoryId: string,
+  updates: ClassificationUpdate[],
+) {
+  const chunks = chunkArray(updates, 1000);
+
+  for (const chunk of chunks) {
+    await query(
+      `UPDATE commits c
+       SET classification = v.classification,
+           classification_confidence = v.confidence,
+           classification_signal = v.signal
+       FROM unnest($2::uuid[], $3::text[], $4::real[], $5::text[])
+         AS v(id, classification, confidence, signal)
+       WHERE c.id = v.id AND c.repository_id = $1`,
+      [
+        repositoryId,
+        chunk.map((update) => update.commitId),
+        chunk.map((update) => update.classification),
+        chunk.map((update) => update.confidence),
+        chunk.map((update) => update.signal),
+      ],
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { query } from "./db.js";
+import { query, withTransaction } from "./db.js";
 
 export type ContributorInput = {
   name: string;
@@ -76,3 +76,84 @@ export async function upsertContributors(
 
   return map;
 }
+
+/**
+ * Identities merged away via the alias API, keyed like `contributorKey`,
+ * pointing at the canonical contributor's identity.
+ */
+export async function loadContributorAliases(
+  repositoryId: string,
+): Promise<Map<string, ContributorInput>> {
+  const result = await query<{
+    name: string;
+    email: string | null;
+    canonical_name: string;
+    canonical_email: string | null;
+  }>(
+    `SELECT a.name, a.email, c.name AS canonical_name, c.email AS canonical_email
+     FROM contributor_aliases a
+     JOIN contributors c ON c.id = a.contributor_id
+     WHERE a.repository_id = $1`,
+    [repositoryId],
+  );
+
+  const map = new Map<string, ContributorInput>();
+  for (const row of result.rows) {
+    map.set(contributorKey(row.name, row.email), {
+      name: row.canonical_name,
+      email: row.canonical_email,
+    });
+  }
+
+  return map;
+}
+
+export async function mergeContributors(
+  repositoryId: string,
+  targetId: string,
+  sourceIds: string[],
+): Promise<{ contributor: ContributorRow; merged: number } | null> {
+  const target = await query<ContributorRow>(
+    "SELECT id, name, email FROM contributors WHERE repository_id = $1 AND id = $2",
+    [repositoryId, targetId],
+  );
+  const contributor = target.rows[0];
+  if (!contributor) {
+    return null;
+  }
+
+  const ids = Array.from(new Set(sourceIds)).filter((id) => id !== targetId);
+  if (!ids.length) {
+    return { contributor, merged: 0 };
+  }
+
+  // One transaction, so a failure cannot leave aliases pointing at a
+  // contributor that is about to be deleted, or sources half merged.
+  const merged = await withTransaction(async (client) => {
+    // Aliases that pointed at a source follow it to the new canonical identity.
+    await client.query(
+      `UPDATE contributor_aliases
+       SET contributor_id = $2
+       WHERE repository_id = $1 AND contributor_id = ANY($3)`,
+      [repositoryId, targetId, ids],
+    );
+
+    await client.query(
+      `INSERT INTO contributor_aliases (repository_id, contributor_id, name, email)
+       SELECT repository_id, $2, name, email
+       FROM contributors
+       WHERE repository_id = $1 AND id = ANY($3)
+       ON CONFLICT (repository_id, name, COALESCE(email, ''))
+       DO UPDATE SET contributor_id = EXCLUDED.contributor_id`,
+      [repositoryId, targetId, ids],
+    );
+
+    const removed = await client.query(
+      "DELETE FROM contributors WHERE repository_id = $1 AND id = ANY($2)",
+      [repositoryId, ids],
+    );
+    return removed.rowCount ?? 0;
+  });
+
+  return { contributor, merged };
+}
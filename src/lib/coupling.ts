@@ -0,0 +1,64 @@
+import { query } from "./db.js";
+
+export type FileCouplingInsert = {
+  fileA: string;
+  fileB: string;
+  sharedCommits: number;
+  revisionsA: number;
+  revisionsB: number;
+  averageRevisions: number;
+  degree: number;
+  support: number;
+  confidenceAToB: number;
+  confidenceBToA: number;
+};
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export async function replaceFileCoupling(
+  repositoryId: string,
+  rows: FileCouplingInsert[],
+) {
+  await query("DELETE FROM file_coupling WHERE repository_id = $1", [
+    repositoryId,
+  ]);
+
+  const chunks = chunkArray(rows, 500);
+
+  for (const chunk of chunks) {
+    const values: string[] = [];
+    const params: Array<string | number> = [];
+
+    chunk.forEach((row, index) => {
+      const base = index * 11;
+      values.push(
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}, $${base + 11})`,
+      );
+      params.push(
+        repositoryId,
+        row.fileA,
+        row.fileB,
+        row.sharedCommits,
+        row.revisionsA,
+        row.revisionsB,
+        row.averageRevisions,
+        row.degree,
+        row.support,
+        row.confidenceAToB,
+        row.confidenceBToA,
+      );
+    });
+
+    await query(
+      `INSERT INTO file_coupling (repository_id, file_a, file_b, shared_commits, revisions_a, revisions_b, average_revisions, degree, support, confidence_a_to_b, confidence_b_to_a)
+       VALUES ${values.join(",")}`,
+      params,
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { Pool, type QueryResult } from "pg";
+import { Pool, type PoolClient, type QueryResult } from "pg";
 
 let pool: Pool | null = null;
 
@@ -21,3 +21,21 @@ export async function query<T>(
 ): Promise<QueryResult<T>> {
   return getPool().query(text, params);
 }
+
+/** Runs `work` on one client between BEGIN and COMMIT; errors roll back. */
+export async function withTransaction<T>(
+  work: (client: PoolClient) => Promise<T>,
+): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN");
+    const result = await work(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,56 @@
+import { query } from "./db.js";
+
+/** Copies the current `file_metrics` of a repository into the run's history. */
+export async function snapshotFileMetrics(
+  repositoryId: string,
+  analysisRunId: string,
+) {
+  await query("DELETE FROM file_metrics_history WHERE analysis_run_id = $1", [
+    analysisRunId,
+  ]);
+
+  await query(
+    `INSERT INTO file_metrics_history (
+        repository_id,
+        analysis_run_id,
+        file_path,
+        touches,
+        churn,
+        hotspot_score,
+        fragility_index,
+        bugfix_ratio
+     )
+     SELECT
+        repository_id,
+        $2,
+        file_path,
+        touches,
+        churn,
+        hotspot_score,
+        fragility_index,
+        bugfix_ratio
+     FROM file_metrics
+     WHERE repository_id = $1`,
+    [repositoryId, analysisRunId],
+  );
+}
+
+/** Keeps the history of the `keepRuns` most recently recorded runs. */
+export async function pruneFileMetricsHistory(
+  repositoryId: string,
+  keepRuns: number,
+) {
+  await query(
+    `DELETE FROM file_metrics_history
+     WHERE repository_id = $1
+       AND analysis_run_id NOT IN (
+         SELECT analysis_run_id
+         FROM file_metrics_history
+         WHERE repository_id = $1
+         GROUP BY analysis_run_id
+         ORDER BY MAX(recorded_at) DESC
+         LIMIT $2
+       )`,
+    [repositoryId, keepRuns],
+  );
+}
@@ -0,0 +1,59 @@
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compiles a repository path glob: `**` spans directories, `*` and `?` stay
+ * within one segment and `{a,b}` lists alternatives. As in `.gitignore`, a
+ * pattern without `/` (other than a trailing one) matches at any depth and a
+ * trailing `/` matches everything below a directory.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const trimmed = pattern.trim();
+  let glob = trimmed.replace(/^\.?\//, "");
+  // A leading `/` or a `/` before the trailing one anchors to the root, so
+  // `dist/` matches at any depth but `/dist/` and `src/dist/` do not.
+  const anchored = glob !== trimmed || glob.slice(0, -1).includes("/");
+  if (glob.endsWith("/")) {
+    glob += "**";
+  }
+
+  let source = anchored ? "" : "(?:.*/)?";
+  let braces = 0;
+
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index] ?? "";
+    if (char === "*") {
+      if (glob[index + 1] !== "*") {
+        source += "[^/]*";
+        continue;
+      }
+      index += 1;
+      if (glob[index + 1] === "/") {
+        index += 1;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braces += 1;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces -= 1;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  source += ")".repeat(braces);
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filePath);
+}
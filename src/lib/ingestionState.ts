@@ -0,0 +1,61 @@
+import type { HistoryMode } from "../services/git.js";
+import { query } from "./db.js";
+
+export type IngestionState = {
+  branch: string;
+  lastSha: string;
+  historyMode: HistoryMode;
+  updatedAt: string;
+};
+
+/** The high-water mark of the branch the repository's commits come from. */
+export async function getIngestionState(
+  repositoryId: string,
+): Promise<IngestionState | null> {
+  const result = await query<{
+    branch: string;
+    last_sha: string;
+    history_mode: HistoryMode;
+    updated_at: string;
+  }>(
+    `SELECT branch, last_sha, history_mode, updated_at
+     FROM ingestion_state
+     WHERE repository_id = $1`,
+    [repositoryId],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    branch: row.branch,
+    lastSha: row.last_sha,
+    historyMode: row.history_mode,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function saveIngestionState(
+  repositoryId: string,
+  branch: string,
+  lastSha: string,
+  historyMode: HistoryMode,
+) {
+  if (!repositoryId || !lastSha) {
+    return;
+  }
+
+  await query(
+    `INSERT INTO ingestion_state (repository_id, branch, last_sha, history_mode, updated_at)
+     VALUES ($1, $2, $3, $4, now())
+     ON CONFLICT (repository_id)
+     DO UPDATE SET
+       branch = EXCLUDED.branch,
+       last_sha = EXCLUDED.last_sha,
+       history_mode = EXCLUDED.history_mode,
+       updated_at = now()`,
+    [repositoryId, branch, lastSha, historyMode],
+  );
+}
@@ -1,10 +1,14 @@
 import { query } from "./db.js";
 
+export type OwnershipAttribution = "author" | "coauthor";
+
 export type FileOwnershipInsert = {
   repositoryId: string;
   filePath: string;
   contributorId: string;
+  attribution: OwnershipAttribution;
   touches: number;
+  credit: number;
   churn: number;
   contributionShare: number;
 };
@@ -29,15 +33,17 @@ export async function upsertFileOwnership(rows: FileOwnershipInsert[]) {
     const params: Array<string | number> = [];
 
     chunk.forEach((row, index) => {
-      const base = index * 7;
+      const base = index * 9;
       values.push(
-        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`,
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9})`,
       );
       params.push(
         row.repositoryId,
         row.filePath,
         row.contributorId,
+        row.attribution,
         row.touches,
+        row.credit,
         row.churn,
         row.contributionShare,
         new Date().toISOString(),
@@ -49,15 +55,18 @@ export async function upsertFileOwnership(rows: FileOwnershipInsert[]) {
           repository_id,
           file_path,
           contributor_id,
+          attribution,
           touches,
+          credit,
           churn,
           contribution_share,
           updated_at
        )
        VALUES ${values.join(",")}
-       ON CONFLICT (repository_id, file_path, contributor_id)
+       ON CONFLICT (repository_id, file_path, contributor_id, attribution)
        DO UPDATE SET
           touches = EXCLUDED.touches,
+          credit = EXCLUDED.credit,
           churn = EXCLUDED.churn,
           contribution_share = EXCLUDED.contribution_share,
           updated_at = EXCLUDED.updated_at`,
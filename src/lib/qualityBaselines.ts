@@ -0,0 +1,97 @@
+import { query } from "./db.js";
+
+export type QualityBaselineEntry = {
+  fingerprint: string;
+  tool: string;
+  rule_id: string;
+  file_path: string;
+  message: string;
+  occurrences: number;
+  quality_run_id: string | null;
+  reason: string | null;
+  created_at: string;
+};
+
+/** How many copies of each baselined fingerprint are accepted. */
+export async function loadBaselineOccurrences(
+  repositoryId: string,
+): Promise<Map<string, number>> {
+  const result = await query<{ fingerprint: string; occurrences: number }>(
+    "SELECT fingerprint, occurrences FROM quality_baselines WHERE repository_id = $1",
+    [repositoryId],
+  );
+  return new Map(result.rows.map((row) => [row.fingerprint, row.occurrences]));
+}
+
+export async function listBaselineEntries(
+  repositoryId: string,
+  limit: number,
+  offset: number,
+) {
+  const result = await query<QualityBaselineEntry>(
+    `SELECT fingerprint, tool, rule_id, file_path, message, occurrences, quality_run_id, reason, created_at
+     FROM quality_baselines
+     WHERE repository_id = $1
+     ORDER BY created_at DESC, file_path, rule_id
+     LIMIT $2 OFFSET $3`,
+    [repositoryId, limit, offset],
+  );
+  const total = await query<{ count: number }>(
+    "SELECT COUNT(*)::int AS count FROM quality_baselines WHERE repository_id = $1",
+    [repositoryId],
+  );
+  return { entries: result.rows, total: total.rows[0]?.count ?? 0 };
+}
+
+/**
+ * Accepts every unsuppressed finding of a run, counting the copies of each
+ * fingerprint. Fingerprints already in the baseline keep their original
+ * entry and only grow to the run's count; returns the number of new or
+ * grown entries.
+ */
+export async function insertBaselineFromRun(
+  repositoryId: string,
+  runId: string,
+  reason: string | null,
+) {
+  const result = await query(
+    `INSERT INTO quality_baselines (
+        repository_id,
+        fingerprint,
+        tool,
+        rule_id,
+        file_path,
+        message,
+        occurrences,
+        quality_run_id,
+        reason
+     )
+     SELECT DISTINCT ON (fingerprint)
+        $1, fingerprint, tool, rule_id, file_path, message,
+        COUNT(*) OVER (PARTITION BY fingerprint), quality_run_id, $3
+     FROM quality_findings
+     WHERE quality_run_id = $2
+       AND fingerprint IS NOT NULL
+       AND NOT suppressed
+     ORDER BY fingerprint, line_start
+     ON CONFLICT (repository_id, fingerprint) DO UPDATE
+       SET occurrences = EXCLUDED.occurrences
+       WHERE quality_baselines.occurrences < EXCLUDED.occurrences`,
+    [repositoryId, runId, reason],
+  );
+  return result.rowCount ?? 0;
+}
+
+/** Removes one fingerprint, or the whole baseline when it is null. */
+export async function deleteBaselineEntries(
+  repositoryId: string,
+  fingerprint: string | null,
+) {
+  const result = await query(
+    `DELETE FROM quality_baselines
+     WHERE repository_id = $1
+       AND ($2::text IS NULL OR fingerprint = $2)`,
+    [repositoryId, fingerprint],
+  );
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,41 @@
+import type { QualityGateCondition } from "../services/qualityGates.js";
+import { query } from "./db.js";
+
+export type StoredQualityGate = {
+  conditions: QualityGateCondition[];
+  updatedAt: string;
+};
+
+export async function getQualityGate(
+  repositoryId: string,
+): Promise<StoredQualityGate | null> {
+  const result = await query<{
+    conditions: QualityGateCondition[];
+    updated_at: string;
+  }>(
+    `SELECT conditions, updated_at
+     FROM quality_gates
+     WHERE repository_id = $1`,
+    [repositoryId],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return { conditions: row.conditions, updatedAt: row.updated_at };
+}
+
+export async function saveQualityGate(
+  repositoryId: string,
+  conditions: QualityGateCondition[],
+) {
+  await query(
+    `INSERT INTO quality_gates (repository_id, conditions, updated_at)
+     VALUES ($1, $2::jsonb, now())
+     ON CONFLICT (repository_id)
+     DO UPDATE SET conditions = EXCLUDED.conditions, updated_at = now()`,
+    [repositoryId, JSON.stringify(conditions)],
+  );
+}
@@ -0,0 +1,41 @@
+import type { QualityProfile } from "../services/qualityRules.js";
+import { query } from "./db.js";
+
+export type StoredQualityProfile = {
+  profile: Partial<QualityProfile>;
+  updatedAt: string;
+};
+
+export async function getQualityProfile(
+  repositoryId: string,
+): Promise<StoredQualityProfile | null> {
+  const result = await query<{
+    profile: Partial<QualityProfile>;
+    updated_at: string;
+  }>(
+    `SELECT profile, updated_at
+     FROM quality_profiles
+     WHERE repository_id = $1`,
+    [repositoryId],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return { profile: row.profile, updatedAt: row.updated_at };
+}
+
+export async function saveQualityProfile(
+  repositoryId: string,
+  profile: QualityProfile,
+) {
+  await query(
+    `INSERT INTO quality_profiles (repository_id, profile, updated_at)
+     VALUES ($1, $2::jsonb, now())
+     ON CONFLICT (repository_id)
+     DO UPDATE SET profile = EXCLUDED.profile, updated_at = now()`,
+    [repositoryId, JSON.stringify(profile)],
+  );
+}
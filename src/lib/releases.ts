@@ -0,0 +1,59 @@
+import { query } from "./db.js";
+
+export type ReleaseInsert = {
+  tag: string;
+  commitSha: string;
+  taggedAt: string;
+  annotated: boolean;
+};
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/** Mirrors the repository's tags: upserts every tag and drops deleted ones. */
+export async function replaceReleases(
+  repositoryId: string,
+  releases: ReleaseInsert[],
+) {
+  await query(
+    "DELETE FROM releases WHERE repository_id = $1 AND NOT (tag = ANY($2::text[]))",
+    [repositoryId, releases.map((release) => release.tag)],
+  );
+
+  const chunks = chunkArray(releases, 500);
+
+  for (const chunk of chunks) {
+    const values: string[] = [];
+    const params: Array<string | boolean | null> = [];
+
+    chunk.forEach((release, index) => {
+      const base = index * 5;
+      values.push(
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5})`,
+      );
+      params.push(
+        repositoryId,
+        release.tag,
+        release.commitSha,
+        release.taggedAt || null,
+        release.annotated,
+      );
+    });
+
+    await query(
+      `INSERT INTO releases (repository_id, tag, commit_sha, tagged_at, annotated)
+       VALUES ${values.join(",")}
+       ON CONFLICT (repository_id, tag)
+       DO UPDATE SET
+         commit_sha = EXCLUDED.commit_sha,
+         tagged_at = EXCLUDED.tagged_at,
+         annotated = EXCLUDED.annotated`,
+      params,
+    );
+  }
+}
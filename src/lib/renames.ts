@@ -0,0 +1,49 @@
+import { query } from "./db.js";
+
+export type FileRenameInsert = {
+  commitId: string;
+  oldPath: string;
+  newPath: string;
+};
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export async function insertFileRenames(
+  repositoryId: string,
+  renames: FileRenameInsert[],
+) {
+  if (!renames.length) {
+    return;
+  }
+
+  const chunks = chunkArray(renames, 500);
+
+  for (const chunk of chunks) {
+    const values: string[] = [];
+    const params: string[] = [];
+
+    chunk.forEach((rename, index) => {
+      const base = index * 4;
+      values.push(`($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4})`);
+      params.push(
+        repositoryId,
+        rename.commitId,
+        rename.oldPath,
+        rename.newPath,
+      );
+    });
+
+    await query(
+      `INSERT INTO file_renames (repository_id, commit_id, old_path, new_path)
+       VALUES ${values.join(",")}
+       ON CONFLICT DO NOTHING`,
+      params,
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import type {
+  GitattributeRule,
+  PathFilterSettings,
+} from "../services/pathFilters.js";
+import { query } from "./db.js";
+
+export type StoredRepositorySettings = {
+  settings: Partial<PathFilterSettings>;
+  gitattributes: GitattributeRule[];
+  updatedAt: string;
+};
+
+export async function getRepositorySettings(
+  repositoryId: string,
+): Promise<StoredRepositorySettings | null> {
+  const result = await query<{
+    settings: Partial<PathFilterSettings>;
+    gitattributes: GitattributeRule[];
+    updated_at: string;
+  }>(
+    `SELECT settings, gitattributes, updated_at
+     FROM repository_settings
+     WHERE repository_id = $1`,
+    [repositoryId],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    settings: row.settings,
+    gitattributes: row.gitattributes,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function saveRepositorySettings(
+  repositoryId: string,
+  settings: PathFilterSettings,
+) {
+  await query(
+    `INSERT INTO repository_settings (repository_id, settings, updated_at)
+     VALUES ($1, $2::jsonb, now())
+     ON CONFLICT (repository_id)
+     DO UPDATE SET settings = EXCLUDED.settings, updated_at = now()`,
+    [repositoryId, JSON.stringify(settings)],
+  );
+}
+
+/** Rules come from the clone, so they do not bump `updated_at`. */
+export async function saveGitattributeRules(
+  repositoryId: string,
+  rules: GitattributeRule[],
+) {
+  await query(
+    `INSERT INTO repository_settings (repository_id, gitattributes)
+     VALUES ($1, $2::jsonb)
+     ON CONFLICT (repository_id)
+     DO UPDATE SET gitattributes = EXCLUDED.gitattributes`,
+    [repositoryId, JSON.stringify(rules)],
+  );
+}
@@ -0,0 +1,44 @@
+import type {
+  ScoringProfile,
+  ScoringProfileInput,
+} from "../services/scoring.js";
+import { query } from "./db.js";
+
+export type StoredScoringProfile = {
+  profile: ScoringProfileInput;
+  updatedAt: string;
+};
+
+export async function getScoringProfile(
+  repositoryId: string,
+): Promise<StoredScoringProfile | null> {
+  const result = await query<{
+    profile: ScoringProfileInput;
+    updated_at: string;
+  }>(
+    `SELECT profile, updated_at
+     FROM scoring_profiles
+     WHERE repository_id = $1`,
+    [repositoryId],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return { profile: row.profile, updatedAt: row.updated_at };
+}
+
+export async function saveScoringProfile(
+  repositoryId: string,
+  profile: ScoringProfile,
+) {
+  await query(
+    `INSERT INTO scoring_profiles (repository_id, profile, updated_at)
+     VALUES ($1, $2::jsonb, now())
+     ON CONFLICT (repository_id)
+     DO UPDATE SET profile = EXCLUDED.profile, updated_at = now()`,
+    [repositoryId, JSON.stringify(profile)],
+  );
+}
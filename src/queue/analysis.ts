@@ -1,6 +1,8 @@
 import { type Job, type JobsOptions, Queue, QueueEvents, Worker } from "bullmq";
 import { updateAnalysisRunStatus } from "../lib/analysisRuns.js";
 import { runAnalysis } from "../services/analysis.js";
+import { resolveComplexitySampling } from "../services/complexity.js";
+import { parseHistoryMode } from "../services/git.js";
 import { getRedisConnection } from "./connection.js";
 
 export const ANALYSIS_QUEUE_NAME = "analysis";
@@ -54,6 +56,10 @@ export function createAnalysisWorker() {
           repoUrl: job.data.repoUrl,
           branch: job.data.branch,
           maxCommits: Number(job.data.options?.maxCommits ?? 0) || undefined,
+          historyMode: parseHistoryMode(job.data.options?.historyMode),
+          complexitySampling: resolveComplexitySampling(
+            job.data.options?.complexitySampling,
+          ),
           analysisRunId: job.data.runId,
         });
         await updateAnalysisRunStatus(job.data.runId, "succeeded");
@@ -3,12 +3,19 @@ import { createAnalysisRun, getAnalysisRun } from "../lib/analysisRuns.js";
 import { query } from "../lib/db.js";
 import { upsertRepository } from "../lib/repositories.js";
 import { enqueueAnalysisJob } from "../queue/analysis.js";
+import {
+  COMPLEXITY_SAMPLINGS,
+  type ComplexitySampling,
+} from "../services/complexity.js";
+import { HISTORY_MODES, type HistoryMode } from "../services/git.js";
 import { parseRepoUrl } from "../services/repoMeta.js";
 
 type AnalysisRequestBody = {
   repoUrl: string;
   branch?: string;
   maxCommits?: number;
+  historyMode?: HistoryMode;
+  complexitySampling?: ComplexitySampling;
 };
 
 export async function analysisRoutes(app: FastifyInstance) {
@@ -23,12 +30,20 @@ export async function analysisRoutes(app: FastifyInstance) {
             repoUrl: { type: "string" },
             branch: { type: "string" },
             maxCommits: { type: "number" },
+            historyMode: { type: "string", enum: HISTORY_MODES },
+            complexitySampling: { type: "string", enum: COMPLEXITY_SAMPLINGS },
           },
         },
       },
     },
     async (request, reply) => {
-      const { repoUrl, branch, maxCommits } = request.body;
+      const {
+        repoUrl,
+        branch,
+        maxCommits,
+        historyMode = "all",
+        complexitySampling,
+      } = request.body;
       const normalizedMaxCommits =
         typeof maxCommits === "number" && maxCommits > 0
           ? Math.floor(maxCommits)
@@ -67,13 +82,19 @@ export async function analysisRoutes(app: FastifyInstance) {
       const runId = await createAnalysisRun(repositoryId, {
         branch,
         maxCommits: normalizedMaxCommits,
+        historyMode,
+        complexitySampling,
       });
 
       await enqueueAnalysisJob({
         runId,
         repoUrl,
         branch,
-        options: { maxCommits: normalizedMaxCommits },
+        options: {
+          maxCommits: normalizedMaxCommits,
+          historyMode,
+          complexitySampling,
+        },
       });
 
       return reply.code(202).send({ runId, repositoryId });
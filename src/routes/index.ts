@@ -1,10 +1,12 @@
 import type { FastifyInstance } from "fastify";
 import { analysisRoutes } from "./analysis.js";
 import { healthRoutes } from "./health.js";
+import { qualityRoutes } from "./quality.js";
 import { repositoryRoutes } from "./repositories.js";
 
 export async function registerRoutes(app: FastifyInstance) {
   await app.register(healthRoutes);
   await app.register(analysisRoutes);
+  await app.register(qualityRoutes);
   await app.register(repositoryRoutes);
 }
@@ -0,0 +1,7 @@
+import type { FastifyInstance } from "fastify";
+import { listQualityRules } from "../services/qualityRules.js";
+
+export async function qualityRoutes(app: FastifyInstance) {
+  // Rule catalog of the built-in scanner, with each rule's default settings.
+  app.get("/api/quality/rules", async () => ({ rules: listQualityRules() }));
+}
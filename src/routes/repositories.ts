@@ -1,9 +1,112 @@
 import path from "node:path";
 import type { FastifyInstance } from "fastify";
+import { getLatestAnalysisRunId } from "../lib/analysisRuns.js";
+import {
+  getClassificationConfig,
+  saveClassificationConfig,
+} from "../lib/classificationConfigs.js";
+import {
+  applyClassificationOverrides,
+  insertClassificationOverride,
+  listClassificationOverrides,
+} from "../lib/classificationOverrides.js";
+import { mergeContributors } from "../lib/contributors.js";
 import { query } from "../lib/db.js";
+import type { OwnershipAttribution } from "../lib/ownership.js";
+import {
+  deleteBaselineEntries,
+  insertBaselineFromRun,
+  listBaselineEntries,
+} from "../lib/qualityBaselines.js";
+import { getQualityGate, saveQualityGate } from "../lib/qualityGates.js";
+import {
+  getQualityProfile,
+  saveQualityProfile,
+} from "../lib/qualityProfiles.js";
+import {
+  getRepositorySettings,
+  saveRepositorySettings,
+} from "../lib/repositorySettings.js";
+import {
+  getScoringProfile,
+  saveScoringProfile,
+} from "../lib/scoringProfiles.js";
+import {
+  type ClassificationConfig,
+  COMMIT_CLASSIFICATIONS,
+  type CommitClassification,
+  COMMIT_CLASSIFICATION_SQL,
+  DEFAULT_CLASSIFICATION_CONFIG,
+  findInvalidRulePattern,
+} from "../services/classification.js";
+import { computeFileCoupling, listFileCoupling } from "../services/coupling.js";
 import { ensureWorkdir, cloneOrFetchRepo, runCommand } from "../services/git.js";
+import { generateInsights } from "../services/insights.js";
+import { computeFileMetrics } from "../services/metrics.js";
+import {
+  FILE_METRIC_FIELDS,
+  type FileMetricField,
+  getFileMetricsHistory,
+  listFileMetricMovers,
+} from "../services/metricsHistory.js";
+import {
+  computeOwnership,
+  resolveCoAuthorWeighting,
+} from "../services/ownership.js";
+import {
+  DEFAULT_PATH_EXCLUDES,
+  type PathFilterSettings,
+  resolvePathFilterSettings,
+} from "../services/pathFilters.js";
 import { parseRepoUrl } from "../services/repoMeta.js";
-import { startQualityAnalysis } from "../services/quality.js";
+import {
+  applyQualityBaseline,
+  evaluateQualityRunGate,
+  importQualityFindings,
+  startQualityAnalysis,
+} from "../services/quality.js";
+import {
+  diffQualityRuns,
+  findBaseQualityRun,
+  resolveQualityRun,
+} from "../services/qualityDiff.js";
+import {
+  DEFAULT_QUALITY_GATE_CONDITIONS,
+  findInvalidQualityGate,
+  QUALITY_GATE_METRICS,
+  QUALITY_GATE_OPERATORS,
+  type QualityGateCondition,
+} from "../services/qualityGates.js";
+import {
+  type QualityProfile,
+  QUALITY_CATEGORIES,
+  QUALITY_SEVERITIES,
+  describeQualityRules,
+  findInvalidQualityProfile,
+  resolveQualityRules,
+} from "../services/qualityRules.js";
+import { reclassifyCommits } from "../services/reclassify.js";
+import { getReleaseReport, listReleases } from "../services/releases.js";
+import {
+  type ScoringProfileInput,
+  resolveScoringProfile,
+  SCORING_NORMALIZATIONS,
+} from "../services/scoring.js";
+import {
+  findPreviousRelease,
+  getSemverImpact,
+  resolveRef,
+} from "../services/semver.js";
+import { getFileLineage } from "../services/renames.js";
+import {
+  buildSarifLog,
+  findSarifLogError,
+  parseSarifLog,
+  type SarifLog,
+} from "../services/sarif.js";
+import { listDefectAuthors, listDefectFiles } from "../services/szz.js";
+import { normalizeTrailerKey } from "../services/trailers.js";
+import { getTreeMetrics } from "../services/treeMetrics.js";
 
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 200;
@@ -11,24 +114,13 @@ const DEFAULT_BRANCHES = 6;
 const MAX_BRANCHES = 12;
 const DEFAULT_WEEKS = 24;
 const MAX_WEEKS = 104;
-const COMMIT_CLASSIFICATION_SQL = `CASE
-  WHEN classification = 'bugfix' THEN 'fix'
-  WHEN classification = 'feature' THEN 'feat'
-  WHEN classification = 'maintenance' THEN 'build'
-  WHEN classification <> 'unknown' THEN classification
-  WHEN lower(message) ~ '^(feat|feature)(\\([^)]+\\))?!?:' THEN 'feat'
-  WHEN lower(message) ~ '^(fix|bugfix)(\\([^)]+\\))?!?:' THEN 'fix'
-  WHEN lower(message) ~ '^(docs|doc)(\\([^)]+\\))?!?:' THEN 'docs'
-  WHEN lower(message) ~ '^(style|styles)(\\([^)]+\\))?!?:' THEN 'style'
-  WHEN lower(message) ~ '^(refactor)(\\([^)]+\\))?!?:' THEN 'refactor'
-  WHEN lower(message) ~ '^(perf)(\\([^)]+\\))?!?:' THEN 'perf'
-  WHEN lower(message) ~ '^(test|tests)(\\([^)]+\\))?!?:' THEN 'test'
-  WHEN lower(message) ~ '^(build)(\\([^)]+\\))?!?:' THEN 'build'
-  WHEN lower(message) ~ '^(ci)(\\([^)]+\\))?!?:' THEN 'ci'
-  WHEN lower(message) ~ '^(revert)(\\([^)]+\\))?!?:' THEN 'revert'
-  WHEN lower(message) ~ '^(chore)(\\([^)]+\\))?!?:' THEN 'chore'
-  ELSE 'unknown'
-END`;
+const DEFAULT_TREE_DEPTH = 3;
+const MAX_TREE_DEPTH = 10;
+const SARIF_BODY_LIMIT = 50 * 1024 * 1024;
+const GRADED_FINDING_SQL = "NOT suppressed AND NOT baselined";
+const FINDING_STATUSES = ["active", "suppressed", "baselined"];
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 function parseLimit(value: unknown, fallback = DEFAULT_LIMIT): number {
   if (typeof value === "number" && Number.isFinite(value)) {
@@ -79,6 +171,65 @@ function parseWeeks(value: unknown, fallback = DEFAULT_WEEKS): number {
   return Math.min(Math.max(Math.floor(raw), 1), MAX_WEEKS);
 }
 
+function parseTreeDepth(value: unknown): number {
+  const raw =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? Number.parseInt(value, 10)
+        : Number.NaN;
+
+  if (!Number.isFinite(raw) || raw < 0) {
+    return DEFAULT_TREE_DEPTH;
+  }
+
+  return Math.min(Math.floor(raw), MAX_TREE_DEPTH);
+}
+
+type MergeFilter = "include" | "exclude" | "only";
+
+function parseMergeFilter(value: unknown): MergeFilter {
+  return value === "exclude" || value === "only" ? value : "include";
+}
+
+function mergeFilterSql(filter: MergeFilter, column = "is_merge"): string {
+  if (filter === "exclude") return `AND NOT ${column}`;
+  if (filter === "only") return `AND ${column}`;
+  return "";
+}
+
+function parseMinConfidence(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return Math.min(Math.max(value, 0), 1);
+  }
+
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number.parseFloat(value);
+    if (!Number.isNaN(parsed)) {
+      return Math.min(Math.max(parsed, 0), 1);
+    }
+  }
+
+  return 0;
+}
+
+function parseOwnershipView(value: unknown): OwnershipAttribution {
+  return value === "coauthor" ? "coauthor" : "author";
+}
+
+const CLASSIFICATION_LABEL_SCHEMA = {
+  type: "string",
+  enum: COMMIT_CLASSIFICATIONS,
+} as const;
+
+const SCORING_WEIGHT_SCHEMA = { type: "number", minimum: 0 } as const;
+
+const FUNCTION_SORTS: Record<string, string> = {
+  cognitive: "cognitive DESC, cyclomatic DESC",
+  cyclomatic: "cyclomatic DESC, cognitive DESC",
+  lines: "lines DESC, cognitive DESC",
+};
+
 function resolveWorkdir(): string {
   return process.env.WORKDIR || "./.data";
 }
@@ -119,6 +270,16 @@ async function getLatestQualityRunId(repositoryId: string) {
   return result.rows[0]?.id ?? null;
 }
 
+/** Where the repository is cloned; the clone itself may not exist yet. */
+async function getRepositoryPath(repositoryId: string) {
+  const result = await query<{ url: string }>(
+    "SELECT url FROM repositories WHERE id = $1",
+    [repositoryId],
+  );
+  const url = result.rows[0]?.url;
+  return url ? path.resolve(resolveWorkdir(), parseRepoUrl(url).slug) : null;
+}
+
 async function getBranchCommitCounts(
   repoPath: string,
   branch: string,
@@ -325,6 +486,11 @@ export async function repositoryRoutes(app: FastifyInstance) {
         files_analyzed: number | null;
         lines_analyzed: number | null;
         quality_grade: string | null;
+        source: string;
+        new_code_base_run_id: string | null;
+        new_code_lines: number | null;
+        new_findings_count: number | null;
+        new_code_grade: string | null;
         error_message: string | null;
         duration_seconds: number | null;
       }>(
@@ -337,6 +503,11 @@ export async function repositoryRoutes(app: FastifyInstance) {
             files_analyzed,
             lines_analyzed,
             quality_grade,
+            source,
+            new_code_base_run_id,
+            new_code_lines,
+            new_findings_count,
+            new_code_grade,
             error_message,
             CASE
               WHEN started_at IS NULL OR completed_at IS NULL THEN NULL
@@ -362,6 +533,8 @@ export async function repositoryRoutes(app: FastifyInstance) {
             info: 0,
             warning: 0,
             error: 0,
+            suppressed: 0,
+            baselined: 0,
           },
           languages: [],
         };
@@ -376,16 +549,22 @@ export async function repositoryRoutes(app: FastifyInstance) {
         info: number;
         warning: number;
         error: number;
+        suppressed: number;
+        baselined: number;
       }>(
+        // Suppressed and baselined findings are counted apart, as they do
+        // not weigh on the grade.
         `SELECT
-            COUNT(*)::int AS total,
-            SUM(CASE WHEN category = 'bug' THEN 1 ELSE 0 END)::int AS bugs,
-            SUM(CASE WHEN category = 'security' THEN 1 ELSE 0 END)::int AS security_issues,
-            SUM(CASE WHEN category = 'code_smell' THEN 1 ELSE 0 END)::int AS code_smells,
-            SUM(CASE WHEN category = 'performance' THEN 1 ELSE 0 END)::int AS performance,
-            SUM(CASE WHEN severity = 'info' THEN 1 ELSE 0 END)::int AS info,
-            SUM(CASE WHEN severity = 'warning' THEN 1 ELSE 0 END)::int AS warning,
-            SUM(CASE WHEN severity = 'error' THEN 1 ELSE 0 END)::int AS error
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL})::int AS total,
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL} AND category = 'bug')::int AS bugs,
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL} AND category = 'security')::int AS security_issues,
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL} AND category = 'code_smell')::int AS code_smells,
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL} AND category = 'performance')::int AS performance,
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL} AND severity = 'info')::int AS info,
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL} AND severity = 'warning')::int AS warning,
+            COUNT(*) FILTER (WHERE ${GRADED_FINDING_SQL} AND severity = 'error')::int AS error,
+            COUNT(*) FILTER (WHERE suppressed)::int AS suppressed,
+            COUNT(*) FILTER (WHERE baselined AND NOT suppressed)::int AS baselined
          FROM quality_findings
          WHERE quality_run_id = $1`,
         [run.id],
@@ -413,6 +592,7 @@ export async function repositoryRoutes(app: FastifyInstance) {
             SUM(CASE WHEN severity = 'info' THEN 1 ELSE 0 END)::int AS info
          FROM quality_findings
          WHERE quality_run_id = $1
+           AND ${GRADED_FINDING_SQL}
          GROUP BY category
          ORDER BY category`,
         [run.id],
@@ -425,6 +605,7 @@ export async function repositoryRoutes(app: FastifyInstance) {
         `SELECT rule_id, COUNT(*)::int AS count
          FROM quality_findings
          WHERE quality_run_id = $1
+           AND ${GRADED_FINDING_SQL}
          GROUP BY rule_id
          ORDER BY count DESC
          LIMIT 8`,
@@ -478,6 +659,8 @@ export async function repositoryRoutes(app: FastifyInstance) {
         severity?: string;
         category?: string;
         file?: string;
+        tool?: string;
+        status?: string;
       };
 
       const limit = parseLimit(queryParams?.limit, 120);
@@ -485,6 +668,13 @@ export async function repositoryRoutes(app: FastifyInstance) {
       const severity = queryParams?.severity?.trim();
       const category = queryParams?.category?.trim();
       const file = queryParams?.file?.trim();
+      const tool = queryParams?.tool?.trim();
+      const status = queryParams?.status?.trim();
+      if (status && !FINDING_STATUSES.includes(status)) {
+        return reply.badRequest(
+          `status must be one of: ${FINDING_STATUSES.join(", ")}.`,
+        );
+      }
 
       const conditions: string[] = ["quality_run_id = $1"];
       const params: Array<string | number> = [runId];
@@ -501,6 +691,17 @@ export async function repositoryRoutes(app: FastifyInstance) {
         params.push(`%${file}%`);
         conditions.push(`file_path ILIKE $${params.length}`);
       }
+      if (tool) {
+        params.push(tool);
+        conditions.push(`tool = $${params.length}`);
+      }
+      if (status === "active") {
+        conditions.push(GRADED_FINDING_SQL);
+      } else if (status === "suppressed") {
+        conditions.push("suppressed");
+      } else if (status === "baselined") {
+        conditions.push("baselined AND NOT suppressed");
+      }
 
       params.push(limit);
       params.push(offset);
@@ -514,8 +715,15 @@ export async function repositoryRoutes(app: FastifyInstance) {
         category: string;
         message: string;
         language: string | null;
+        tool: string;
+        enclosing_function: string | null;
+        fingerprint: string | null;
+        suppressed: boolean;
+        suppression_reason: string | null;
+        baselined: boolean;
       }>(
-        `SELECT file_path, line_start, line_end, rule_id, severity, category, message, language
+        `SELECT file_path, line_start, line_end, rule_id, severity, category, message, language, tool,
+            enclosing_function, fingerprint, suppressed, suppression_reason, baselined
          FROM quality_findings
          WHERE ${conditions.join(" AND ")}
          ORDER BY severity DESC, category ASC, file_path ASC, line_start ASC
@@ -566,6 +774,452 @@ export async function repositoryRoutes(app: FastifyInstance) {
     },
   );
 
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/quality/diff",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to diff quality runs.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const queryParams = request.query as {
+        base?: string;
+        head?: string;
+        limit?: string | number;
+      };
+      const headParam = queryParams?.head?.trim() || null;
+      const baseParam = queryParams?.base?.trim() || null;
+
+      // Both accept a quality run id or a ref (`HEAD`, tag or SHA).
+      const repoPath = await getRepositoryPath(repositoryId);
+      const head = await resolveQualityRun(repositoryId, headParam, repoPath);
+      if (!head) {
+        return reply.notFound(
+          headParam
+            ? `No successful quality run for head: ${headParam}`
+            : "No successful quality run found.",
+        );
+      }
+      const base = baseParam
+        ? await resolveQualityRun(repositoryId, baseParam, repoPath)
+        : await findBaseQualityRun(repositoryId, head);
+      if (!base) {
+        return reply.notFound(
+          baseParam
+            ? `No successful quality run for base: ${baseParam}`
+            : "No earlier successful quality run to compare with.",
+        );
+      }
+
+      return diffQualityRuns(repositoryId, base, head, {
+        limit: parseLimit(queryParams?.limit, 100),
+        repoPath,
+      });
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/quality/gate",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read quality gate.",
+        );
+      }
+
+      // `ref` takes a quality run id or a ref (`HEAD`, tag or SHA).
+      const repositoryId = request.params.id;
+      const ref = (request.query as { ref?: string })?.ref?.trim() || null;
+      const run = await resolveQualityRun(
+        repositoryId,
+        ref,
+        await getRepositoryPath(repositoryId),
+      );
+      if (!run) {
+        return reply.notFound(
+          ref
+            ? `No successful quality run for ref: ${ref}`
+            : "No successful quality run found.",
+        );
+      }
+
+      const gateResult = await query<{
+        gate_status: string | null;
+        gate_failures: unknown[] | null;
+        new_code_grade: string | null;
+      }>(
+        `SELECT gate_status, gate_failures, new_code_grade
+         FROM quality_runs
+         WHERE id = $1`,
+        [run.id],
+      );
+      let gate = gateResult.rows[0];
+      // Runs recorded before the gate existed are evaluated on first read.
+      if (!gate?.gate_status) {
+        const evaluated = await evaluateQualityRunGate(repositoryId, run.id);
+        gate = {
+          gate_status: evaluated?.status ?? null,
+          gate_failures: evaluated?.failures ?? [],
+          new_code_grade: gate?.new_code_grade ?? null,
+        };
+      }
+
+      return {
+        run: {
+          id: run.id,
+          commit_sha: run.commit_sha,
+          completed_at: run.completed_at,
+          quality_grade: run.quality_grade,
+          new_code_grade: gate.new_code_grade,
+        },
+        status: gate.gate_status,
+        failures: gate.gate_failures ?? [],
+      };
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/quality/gate/conditions",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read quality gate.",
+        );
+      }
+
+      const stored = await getQualityGate(request.params.id);
+      return {
+        conditions: stored?.conditions ?? DEFAULT_QUALITY_GATE_CONDITIONS,
+        updated_at: stored?.updatedAt ?? null,
+      };
+    },
+  );
+
+  app.put<{
+    Params: { id: string };
+    Body: { conditions: QualityGateCondition[] };
+  }>(
+    "/api/repositories/:id/quality/gate/conditions",
+    {
+      schema: {
+        body: {
+          type: "object",
+          additionalProperties: false,
+          required: ["conditions"],
+          properties: {
+            conditions: {
+              type: "array",
+              maxItems: 50,
+              items: {
+                type: "object",
+                additionalProperties: false,
+                required: ["metric", "operator", "threshold"],
+                properties: {
+                  metric: { type: "string", enum: QUALITY_GATE_METRICS },
+                  operator: { type: "string", enum: QUALITY_GATE_OPERATORS },
+                  threshold: { type: ["number", "string"] },
+                  category: { type: "string", enum: QUALITY_CATEGORIES },
+                  severity: { type: "string", enum: QUALITY_SEVERITIES },
+                  hotspotScore: { type: "number", minimum: 0 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to update quality gate.",
+        );
+      }
+
+      const gateError = findInvalidQualityGate(request.body.conditions);
+      if (gateError) {
+        return reply.badRequest(gateError);
+      }
+
+      const repositoryId = request.params.id;
+      const repository = await query<{ id: string }>(
+        "SELECT id FROM repositories WHERE id = $1",
+        [repositoryId],
+      );
+      if (!repository.rows[0]) {
+        return reply.notFound("Repository not found.");
+      }
+
+      // The body replaces the stored conditions; an empty list always passes.
+      await saveQualityGate(repositoryId, request.body.conditions);
+
+      // The latest run is re-evaluated so the gate reflects the new conditions.
+      const latest = await resolveQualityRun(repositoryId, null);
+      const gate = latest
+        ? await evaluateQualityRunGate(repositoryId, latest.id)
+        : null;
+
+      return {
+        conditions: request.body.conditions,
+        gate:
+          latest && gate
+            ? {
+                run_id: latest.id,
+                status: gate.status,
+                failures: gate.failures,
+              }
+            : null,
+      };
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/quality/sarif",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to export SARIF.");
+      }
+
+      const runId =
+        (request.query as { runId?: string })?.runId?.trim() || null;
+      if (runId && !UUID_RE.test(runId)) {
+        return reply.badRequest("runId must be a UUID.");
+      }
+
+      const log = await buildSarifLog(request.params.id, runId);
+      if (!log) {
+        return reply.notFound("Quality run not found.");
+      }
+
+      return reply.type("application/sarif+json").send(log);
+    },
+  );
+
+  app.post<{ Params: { id: string }; Body: SarifLog }>(
+    "/api/repositories/:id/quality/sarif",
+    {
+      bodyLimit: SARIF_BODY_LIMIT,
+      schema: {
+        body: {
+          type: "object",
+          required: ["version", "runs"],
+          properties: {
+            version: { type: "string" },
+            runs: { type: "array" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to import SARIF.");
+      }
+
+      const sarifError = findSarifLogError(request.body);
+      if (sarifError) {
+        return reply.badRequest(sarifError);
+      }
+
+      const commitSha =
+        (request.query as { commitSha?: string })?.commitSha?.trim() || null;
+      if (commitSha && !/^[0-9a-f]{7,40}$/i.test(commitSha)) {
+        return reply.badRequest(
+          "commitSha must be 7-40 hexadecimal characters.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const repository = await query<{ id: string }>(
+        "SELECT id FROM repositories WHERE id = $1",
+        [repositoryId],
+      );
+      if (!repository.rows[0]) {
+        return reply.notFound("Repository not found.");
+      }
+
+      const parsed = parseSarifLog(
+        request.body,
+        await getRepositoryPath(repositoryId),
+      );
+      return importQualityFindings(repositoryId, parsed.findings, {
+        tools: parsed.tools,
+        commitSha: commitSha?.toLowerCase() ?? parsed.commitSha,
+        unresolvedCount: parsed.unresolved,
+      });
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/quality/profile",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read quality profile.",
+        );
+      }
+
+      const stored = await getQualityProfile(request.params.id);
+      return {
+        profile: describeQualityRules(
+          resolveQualityRules(stored?.profile ?? null),
+        ),
+        updated_at: stored?.updatedAt ?? null,
+      };
+    },
+  );
+
+  app.put<{ Params: { id: string }; Body: Partial<QualityProfile> }>(
+    "/api/repositories/:id/quality/profile",
+    {
+      schema: {
+        body: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            rules: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  enabled: { type: "boolean" },
+                  severity: { type: "string", enum: QUALITY_SEVERITIES },
+                  options: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to update quality profile.",
+        );
+      }
+
+      const profileError = findInvalidQualityProfile(request.body);
+      if (profileError) {
+        return reply.badRequest(profileError);
+      }
+
+      const repositoryId = request.params.id;
+      const repository = await query<{ id: string }>(
+        "SELECT id FROM repositories WHERE id = $1",
+        [repositoryId],
+      );
+      if (!repository.rows[0]) {
+        return reply.notFound("Repository not found.");
+      }
+
+      // The body replaces the stored overrides; omitted rules reset to
+      // defaults. Only the next quality run applies it.
+      const profile: QualityProfile = { rules: request.body.rules ?? {} };
+      await saveQualityProfile(repositoryId, profile);
+
+      return { profile: describeQualityRules(resolveQualityRules(profile)) };
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/quality/baseline",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read quality baseline.",
+        );
+      }
+
+      const queryParams = request.query as {
+        limit?: string | number;
+        offset?: string | number;
+      };
+      return listBaselineEntries(
+        request.params.id,
+        parseLimit(queryParams?.limit, 120),
+        parseOffset(queryParams?.offset),
+      );
+    },
+  );
+
+  app.post<{
+    Params: { id: string };
+    Body: { runId?: string; reason?: string };
+  }>(
+    "/api/repositories/:id/quality/baseline",
+    {
+      schema: {
+        body: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            runId: { type: "string", pattern: UUID_RE.source },
+            reason: { type: "string", maxLength: 2000 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to update quality baseline.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const runResult = await query<{ id: string }>(
+        `SELECT id
+         FROM quality_runs
+         WHERE repository_id = $1
+           AND status = 'succeeded'
+           AND ($2::uuid IS NULL OR id = $2)
+         ORDER BY completed_at DESC NULLS LAST, created_at DESC
+         LIMIT 1`,
+        [repositoryId, request.body.runId ?? null],
+      );
+      const runId = runResult.rows[0]?.id;
+      if (!runId) {
+        return reply.notFound("Successful quality run not found.");
+      }
+
+      const added = await insertBaselineFromRun(
+        repositoryId,
+        runId,
+        request.body.reason?.trim() || null,
+      );
+      const grade = await applyQualityBaseline(repositoryId, runId);
+
+      return { runId, added, grade };
+    },
+  );
+
+  app.delete<{ Params: { id: string } }>(
+    "/api/repositories/:id/quality/baseline",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to update quality baseline.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const fingerprint =
+        (request.query as { fingerprint?: string })?.fingerprint?.trim() ||
+        null;
+      const removed = await deleteBaselineEntries(repositoryId, fingerprint);
+
+      // Findings of the latest run that were accepted count again.
+      const runId = await getLatestQualityRunId(repositoryId);
+      const grade = runId
+        ? await applyQualityBaseline(repositoryId, runId)
+        : null;
+
+      return { removed, runId, grade };
+    },
+  );
+
   app.post<{ Params: { id: string } }>(
     "/api/repositories/:id/quality/run",
     async (request, reply) => {
@@ -614,12 +1268,22 @@ export async function repositoryRoutes(app: FastifyInstance) {
       const queryParams = request.query as {
         limit?: string | number;
         before?: string;
+        trailer?: string;
+        trailerValue?: string;
+        withoutTrailer?: string;
       };
 
       const limit = parseLimit(queryParams?.limit, 100);
       const before = queryParams?.before?.trim()
         ? new Date(queryParams.before)
         : null;
+      const trailer = queryParams?.trailer?.trim()
+        ? normalizeTrailerKey(queryParams.trailer)
+        : null;
+      const trailerValue = queryParams?.trailerValue?.trim() || null;
+      const withoutTrailer = queryParams?.withoutTrailer?.trim()
+        ? normalizeTrailerKey(queryParams.withoutTrailer)
+        : null;
 
       const result = await query<{
         sha: string;
@@ -627,28 +1291,163 @@ export async function repositoryRoutes(app: FastifyInstance) {
         author_email: string | null;
         committed_at: string;
         message: string;
+        body: string;
         classification: string;
+        classification_confidence: number;
+        classification_signal: string | null;
+        classification_source: string;
+        breaking: boolean;
+        semver_bump: string;
+        trailers: Array<{ key: string; value: string }>;
       }>(
         `SELECT
-            sha,
-            author_name,
-            author_email,
-            committed_at,
-            message,
-            ${COMMIT_CLASSIFICATION_SQL} AS classification
-         FROM commits
-         WHERE repository_id = $1
-           AND ($2::timestamptz IS NULL OR committed_at < $2)
-         ORDER BY committed_at DESC
+            c.sha,
+            c.author_name,
+            c.author_email,
+            c.committed_at,
+            c.message,
+            c.body,
+            ${COMMIT_CLASSIFICATION_SQL} AS classification,
+            c.classification_confidence,
+            c.classification_signal,
+            c.classification_source,
+            c.breaking,
+            c.semver_bump,
+            COALESCE(
+              (SELECT json_agg(json_build_object('key', t.key, 'value', t.value) ORDER BY t.key, t.value)
+               FROM commit_trailers t
+               WHERE t.commit_id = c.id),
+              '[]'::json
+            ) AS trailers
+         FROM commits c
+         WHERE c.repository_id = $1
+           AND ($2::timestamptz IS NULL OR c.committed_at < $2)
+           AND (
+             ($4::text IS NULL AND $5::text IS NULL)
+             OR EXISTS (
+               SELECT 1
+               FROM commit_trailers t
+               WHERE t.commit_id = c.id
+                 AND ($4::text IS NULL OR t.key = $4)
+                 AND ($5::text IS NULL OR t.value ILIKE '%' || $5 || '%')
+             )
+           )
+           AND (
+             $6::text IS NULL
+             OR NOT EXISTS (
+               SELECT 1 FROM commit_trailers t WHERE t.commit_id = c.id AND t.key = $6
+             )
+           )
+         ORDER BY c.committed_at DESC
          LIMIT $3`,
-        [request.params.id, before ? before.toISOString() : null, limit],
+        [
+          request.params.id,
+          before ? before.toISOString() : null,
+          limit,
+          trailer,
+          trailerValue,
+          withoutTrailer,
+        ],
       );
 
       return result.rows;
     },
   );
 
-  app.get<{ Params: { id: string } }>(
+  app.patch<{
+    Params: { id: string; sha: string };
+    Body: {
+      classification: CommitClassification;
+      changedBy?: string;
+      reason?: string;
+    };
+  }>(
+    "/api/repositories/:id/commits/:sha",
+    {
+      schema: {
+        body: {
+          type: "object",
+          additionalProperties: false,
+          required: ["classification"],
+          properties: {
+            classification: CLASSIFICATION_LABEL_SCHEMA,
+            changedBy: { type: "string", maxLength: 200 },
+            reason: { type: "string", maxLength: 2000 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to override commit classification.",
+        );
+      }
+
+      const { id, sha } = request.params;
+      if (!/^[0-9a-f]{7,40}$/i.test(sha)) {
+        return reply.badRequest("sha must be 7-40 hexadecimal characters.");
+      }
+
+      // Abbreviated SHAs are accepted as long as they are unambiguous.
+      const commit = await query<{ sha: string; classification: string }>(
+        `SELECT sha, classification
+         FROM commits
+         WHERE repository_id = $1
+           AND sha LIKE $2 || '%'
+         LIMIT 2`,
+        [id, sha.toLowerCase()],
+      );
+      if (commit.rows.length > 1) {
+        return reply.badRequest(`Commit ${sha} is ambiguous.`);
+      }
+      const current = commit.rows[0];
+      if (!current) {
+        return reply.notFound("Commit not found.");
+      }
+
+      const override = await insertClassificationOverride({
+        repositoryId: id,
+        commitSha: current.sha,
+        previousClassification: current.classification,
+        classification: request.body.classification,
+        changedBy: request.body.changedBy?.trim() || null,
+        reason: request.body.reason?.trim() || null,
+      });
+      await applyClassificationOverrides(id, current.sha);
+
+      // bugfix_ratio, fragility and the insights built on them read the
+      // stored labels.
+      if (current.classification !== request.body.classification) {
+        await computeFileMetrics(id, app.config.ANALYSIS_RECENT_DAYS);
+        await generateInsights(id, await getLatestAnalysisRunId(id));
+      }
+
+      return {
+        sha: current.sha,
+        classification: request.body.classification,
+        previous_classification: current.classification,
+        override_id: override?.id ?? null,
+        history: await listClassificationOverrides(id, current.sha),
+      };
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/classification-overrides",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read classification overrides.",
+        );
+      }
+
+      const sha = (request.query as { sha?: string })?.sha?.trim() || null;
+      return listClassificationOverrides(request.params.id, sha);
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
     "/api/repositories/:id/fragility",
     async (request, reply) => {
       if (!app.config.DATABASE_URL) {
@@ -684,39 +1483,470 @@ export async function repositoryRoutes(app: FastifyInstance) {
         return reply.badRequest("DATABASE_URL must be set to read ownership.");
       }
 
-      const limit = parseLimit(
-        (request.query as { limit?: string | number })?.limit,
-      );
+      const queryParams = request.query as {
+        limit?: string | number;
+        view?: string;
+      };
+      const limit = parseLimit(queryParams?.limit);
+      const view = parseOwnershipView(queryParams?.view);
+      if (view === "coauthor" && resolveCoAuthorWeighting() === "none") {
+        return reply.badRequest(
+          "view=coauthor requires co-author weighting; OWNERSHIP_COAUTHOR_WEIGHTING is none.",
+        );
+      }
 
       const result = await query<{
         file_path: string;
         contributor_name: string;
         touches: number;
+        credit: number;
         churn: number;
         contribution_share: number;
       }>(
-        `SELECT file_path, contributor_name, touches, churn, contribution_share
+        `SELECT file_path, contributor_name, touches, credit, churn, contribution_share
          FROM (
             SELECT DISTINCT ON (fo.file_path)
               fo.file_path,
               c.name AS contributor_name,
               fo.touches,
+              fo.credit,
               fo.churn,
               fo.contribution_share
             FROM file_ownership fo
             JOIN contributors c ON c.id = fo.contributor_id
             WHERE fo.repository_id = $1
+              AND fo.attribution = $3
             ORDER BY fo.file_path, fo.contribution_share DESC
          ) ranked
          ORDER BY contribution_share DESC
          LIMIT $2`,
-        [request.params.id, limit],
+        [request.params.id, limit, view],
+      );
+
+      return result.rows;
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/contributors",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read contributors.",
+        );
+      }
+
+      const result = await query<{
+        id: string;
+        name: string;
+        email: string | null;
+        aliases: Array<{ name: string; email: string | null }>;
+      }>(
+        `SELECT
+            c.id,
+            c.name,
+            c.email,
+            COALESCE(
+              (SELECT json_agg(json_build_object('name', a.name, 'email', a.email) ORDER BY a.name)
+               FROM contributor_aliases a
+               WHERE a.contributor_id = c.id),
+              '[]'::json
+            ) AS aliases
+         FROM contributors c
+         WHERE c.repository_id = $1
+         ORDER BY c.name`,
+        [request.params.id],
       );
 
       return result.rows;
     },
   );
 
+  app.post<{
+    Params: { id: string };
+    Body: { targetId: string; sourceIds: string[] };
+  }>(
+    "/api/repositories/:id/contributors/merge",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["targetId", "sourceIds"],
+          properties: {
+            targetId: { type: "string", pattern: UUID_RE.source },
+            sourceIds: {
+              type: "array",
+              minItems: 1,
+              items: { type: "string", pattern: UUID_RE.source },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to merge contributors.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const result = await mergeContributors(
+        repositoryId,
+        request.body.targetId,
+        request.body.sourceIds,
+      );
+      if (!result) {
+        return reply.notFound("Contributor not found.");
+      }
+
+      // Ownership (and the bus-factor insight built on it) is keyed on
+      // contributor ids, so it has to be rebuilt with the new alias rules.
+      await computeOwnership(repositoryId);
+      await generateInsights(
+        repositoryId,
+        await getLatestAnalysisRunId(repositoryId),
+      );
+
+      return result;
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/classification-config",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read classification config.",
+        );
+      }
+
+      const stored = await getClassificationConfig(request.params.id);
+      return {
+        config: { ...DEFAULT_CLASSIFICATION_CONFIG, ...stored?.config },
+        updated_at: stored?.updatedAt ?? null,
+      };
+    },
+  );
+
+  app.put<{
+    Params: { id: string };
+    Body: Partial<ClassificationConfig>;
+  }>(
+    "/api/repositories/:id/classification-config",
+    {
+      schema: {
+        body: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            prefixes: {
+              type: "object",
+              additionalProperties: CLASSIFICATION_LABEL_SCHEMA,
+            },
+            rules: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["pattern", "label"],
+                properties: {
+                  pattern: { type: "string", minLength: 1 },
+                  label: CLASSIFICATION_LABEL_SCHEMA,
+                  priority: { type: "number" },
+                },
+              },
+            },
+            ticketPrefixes: {
+              type: "object",
+              additionalProperties: CLASSIFICATION_LABEL_SCHEMA,
+            },
+            useDefaultRules: { type: "boolean" },
+            pathSignals: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["pattern", "label"],
+                properties: {
+                  pattern: { type: "string", minLength: 1 },
+                  label: CLASSIFICATION_LABEL_SCHEMA,
+                },
+              },
+            },
+            useDefaultPathSignals: { type: "boolean" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to update classification config.",
+        );
+      }
+
+      const invalidPattern = findInvalidRulePattern(request.body);
+      if (invalidPattern !== null) {
+        return reply.badRequest(`Invalid rule pattern: ${invalidPattern}`);
+      }
+
+      const repository = await query<{ id: string }>(
+        "SELECT id FROM repositories WHERE id = $1",
+        [request.params.id],
+      );
+      if (!repository.rows[0]) {
+        return reply.notFound("Repository not found.");
+      }
+
+      // The body replaces the stored config; omitted fields reset to defaults.
+      const config = { ...DEFAULT_CLASSIFICATION_CONFIG, ...request.body };
+      await saveClassificationConfig(request.params.id, config);
+
+      return { config };
+    },
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/api/repositories/:id/reclassify",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to reclassify commits.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const result = await reclassifyCommits(repositoryId);
+
+      // bugfix_ratio, fragility and the insights built on them read the
+      // stored labels, so they are rebuilt from the new classification.
+      if (result.changed > 0) {
+        await computeFileMetrics(repositoryId, app.config.ANALYSIS_RECENT_DAYS);
+        await generateInsights(
+          repositoryId,
+          await getLatestAnalysisRunId(repositoryId),
+        );
+      }
+
+      return result;
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/scoring-profile",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read scoring profile.",
+        );
+      }
+
+      const stored = await getScoringProfile(request.params.id);
+      return {
+        profile: resolveScoringProfile(stored?.profile ?? null),
+        updated_at: stored?.updatedAt ?? null,
+      };
+    },
+  );
+
+  app.put<{
+    Params: { id: string };
+    Body: ScoringProfileInput;
+  }>(
+    "/api/repositories/:id/scoring-profile",
+    {
+      schema: {
+        body: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            normalization: { type: "string", enum: SCORING_NORMALIZATIONS },
+            hotspot: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                touches: SCORING_WEIGHT_SCHEMA,
+                churn: SCORING_WEIGHT_SCHEMA,
+              },
+            },
+            fragility: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                recentTouches: SCORING_WEIGHT_SCHEMA,
+                recentChurn: SCORING_WEIGHT_SCHEMA,
+                bugfixRatio: SCORING_WEIGHT_SCHEMA,
+              },
+            },
+            complexityFactor: { type: "boolean" },
+            complexityMetric: { type: "string", enum: ["cyclomatic", "lines"] },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to update scoring profile.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const repository = await query<{ id: string }>(
+        "SELECT id FROM repositories WHERE id = $1",
+        [repositoryId],
+      );
+      if (!repository.rows[0]) {
+        return reply.notFound("Repository not found.");
+      }
+
+      // The body replaces the stored profile; omitted fields reset to defaults.
+      const profile = resolveScoringProfile(request.body);
+      await saveScoringProfile(repositoryId, profile);
+
+      // Scores are rebuilt by the next analysis run, which records the
+      // profile and versions the new scores in file_metrics_history.
+      return { profile };
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/settings",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read repository settings.",
+        );
+      }
+
+      const stored = await getRepositorySettings(request.params.id);
+      return {
+        settings: resolvePathFilterSettings(stored?.settings ?? null),
+        default_excludes: DEFAULT_PATH_EXCLUDES,
+        gitattributes: stored?.gitattributes ?? [],
+        updated_at: stored?.updatedAt ?? null,
+      };
+    },
+  );
+
+  app.put<{
+    Params: { id: string };
+    Body: Partial<PathFilterSettings>;
+  }>(
+    "/api/repositories/:id/settings",
+    {
+      schema: {
+        body: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            include: {
+              type: "array",
+              items: { type: "string", minLength: 1 },
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string", minLength: 1 },
+            },
+            useDefaultExcludes: { type: "boolean" },
+            useGitattributes: { type: "boolean" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to update repository settings.",
+        );
+      }
+
+      const repositoryId = request.params.id;
+      const repository = await query<{ id: string }>(
+        "SELECT id FROM repositories WHERE id = $1",
+        [repositoryId],
+      );
+      if (!repository.rows[0]) {
+        return reply.notFound("Repository not found.");
+      }
+
+      // The body replaces the stored settings; omitted fields reset to defaults.
+      const settings = resolvePathFilterSettings(request.body);
+      await saveRepositorySettings(repositoryId, settings);
+
+      // History-based metrics are rebuilt from the database right away;
+      // complexity and quality need a checkout and follow on the next run.
+      await computeFileMetrics(repositoryId, app.config.ANALYSIS_RECENT_DAYS);
+      await computeOwnership(repositoryId);
+      await computeFileCoupling(repositoryId);
+      await generateInsights(
+        repositoryId,
+        await getLatestAnalysisRunId(repositoryId),
+      );
+
+      return { settings };
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/tree-metrics",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read tree metrics.",
+        );
+      }
+
+      const depth = parseTreeDepth(
+        (request.query as { depth?: string | number })?.depth,
+      );
+
+      return getTreeMetrics(request.params.id, depth);
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/coupling",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to read coupling.");
+      }
+
+      const queryParams = request.query as {
+        file?: string;
+        limit?: string | number;
+        minDegree?: string | number;
+      };
+      const limit = parseLimit(queryParams?.limit);
+      const minDegree = parseMinConfidence(queryParams?.minDegree);
+
+      return listFileCoupling(
+        request.params.id,
+        queryParams?.file?.trim() || null,
+        limit,
+        minDegree,
+      );
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/defects",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to read defects.");
+      }
+
+      const queryParams = request.query as {
+        view?: string;
+        limit?: string | number;
+      };
+      const limit = parseLimit(queryParams?.limit);
+
+      return queryParams?.view === "authors"
+        ? listDefectAuthors(request.params.id, limit)
+        : listDefectFiles(request.params.id, limit);
+    },
+  );
+
   app.get<{ Params: { id: string } }>(
     "/api/repositories/:id/insights",
     async (request, reply) => {
@@ -786,10 +2016,17 @@ export async function repositoryRoutes(app: FastifyInstance) {
         return reply.badRequest("DATABASE_URL must be set to read bus factor.");
       }
 
-      const limit = parseLimit(
-        (request.query as { limit?: string | number })?.limit,
-        10,
-      );
+      const queryParams = request.query as {
+        limit?: string | number;
+        view?: string;
+      };
+      const limit = parseLimit(queryParams?.limit, 10);
+      const view = parseOwnershipView(queryParams?.view);
+      if (view === "coauthor" && resolveCoAuthorWeighting() === "none") {
+        return reply.badRequest(
+          "view=coauthor requires co-author weighting; OWNERSHIP_COAUTHOR_WEIGHTING is none.",
+        );
+      }
 
       const touchThreshold = app.config.BUS_FACTOR_TOUCH_THRESHOLD;
       const shareThreshold = app.config.BUS_FACTOR_SHARE_THRESHOLD;
@@ -813,11 +2050,12 @@ export async function repositoryRoutes(app: FastifyInstance) {
            ON fm.repository_id = fo.repository_id
           AND fm.file_path = fo.file_path
          WHERE fo.repository_id = $1
+           AND fo.attribution = $5
            AND fm.touches >= $2
            AND fo.contribution_share >= $3
          ORDER BY fo.contribution_share DESC, fm.touches DESC
          LIMIT $4`,
-        [request.params.id, touchThreshold, shareThreshold, limit],
+        [request.params.id, touchThreshold, shareThreshold, limit, view],
       );
 
       return result.rows;
@@ -838,17 +2076,25 @@ export async function repositoryRoutes(app: FastifyInstance) {
 
       const result = await query<{
         file_path: string;
+        canonical_path: string;
         commit_sha: string;
+        sampling_strategy: string;
+        bucket_label: string | null;
+        analyzer: string;
         functions: number;
         conditionals: number;
         max_nesting: number;
         lines: number;
       }>(
-        `SELECT file_path, commit_sha, functions, conditionals, max_nesting, lines
+        `SELECT file_path, canonical_path, commit_sha, sampling_strategy, bucket_label, analyzer, functions, conditionals, max_nesting, lines
          FROM (
-           SELECT DISTINCT ON (cs.file_path)
+           SELECT DISTINCT ON (COALESCE(cs.canonical_path, cs.file_path))
              cs.file_path,
+             COALESCE(cs.canonical_path, cs.file_path) AS canonical_path,
              cs.commit_sha,
+             cs.sampling_strategy,
+             cs.bucket_label,
+             cs.analyzer,
              cs.functions,
              cs.conditionals,
              cs.max_nesting,
@@ -856,7 +2102,7 @@ export async function repositoryRoutes(app: FastifyInstance) {
              cs.created_at
            FROM complexity_snapshots cs
            WHERE cs.repository_id = $1
-           ORDER BY cs.file_path, cs.created_at DESC
+           ORDER BY COALESCE(cs.canonical_path, cs.file_path), cs.created_at DESC
          ) latest
          ORDER BY lines DESC
          LIMIT $2`,
@@ -867,6 +2113,327 @@ export async function repositoryRoutes(app: FastifyInstance) {
     },
   );
 
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/complexity/series",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to read complexity.");
+      }
+
+      const queryParams = request.query as {
+        file?: string;
+        analyzer?: string;
+      };
+      const file = queryParams?.file?.trim() || null;
+      const analyzer = queryParams?.analyzer?.trim() || null;
+
+      const result = await query<{
+        bucket_label: string | null;
+        commit_sha: string;
+        sampling_strategy: string;
+        committed_at: string | null;
+        files: number;
+        functions: number;
+        conditionals: number;
+        max_nesting: number;
+        lines: number;
+      }>(
+        `SELECT
+            cs.bucket_label,
+            cs.commit_sha,
+            cs.sampling_strategy,
+            MAX(c.committed_at) AS committed_at,
+            COUNT(*)::int AS files,
+            SUM(cs.functions)::int AS functions,
+            SUM(cs.conditionals)::int AS conditionals,
+            MAX(cs.max_nesting)::int AS max_nesting,
+            SUM(cs.lines)::int AS lines
+         FROM complexity_snapshots cs
+         LEFT JOIN commits c ON c.repository_id = cs.repository_id AND c.sha = cs.commit_sha
+         WHERE cs.repository_id = $1
+           AND ($2::text IS NULL OR COALESCE(cs.canonical_path, cs.file_path) = $2)
+           AND ($3::text IS NULL OR cs.analyzer = $3)
+         GROUP BY cs.bucket_label, cs.commit_sha, cs.sampling_strategy
+         ORDER BY committed_at ASC`,
+        [request.params.id, file, analyzer],
+      );
+
+      return result.rows;
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/functions",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read function complexity.",
+        );
+      }
+
+      const queryParams = request.query as {
+        limit?: string | number;
+        sort?: string;
+        file?: string;
+      };
+      const limit = parseLimit(queryParams?.limit);
+      const orderBy =
+        FUNCTION_SORTS[queryParams?.sort ?? ""] ?? FUNCTION_SORTS.cognitive;
+      const file = queryParams?.file?.trim() || null;
+
+      // Rank functions at the most recent snapshot...
+      const worst = await query<{
+        file_path: string;
+        canonical_path: string;
+        function_name: string;
+        start_line: number;
+        end_line: number;
+        lines: number;
+        parameters: number;
+        cyclomatic: number;
+        cognitive: number;
+        commit_sha: string;
+      }>(
+        `WITH latest AS (
+           SELECT fc.commit_sha
+           FROM function_complexity fc
+           JOIN commits c ON c.repository_id = fc.repository_id AND c.sha = fc.commit_sha
+           WHERE fc.repository_id = $1
+           ORDER BY c.committed_at DESC
+           LIMIT 1
+         )
+         SELECT *
+         FROM (
+           SELECT
+             fc.file_path,
+             COALESCE(fc.canonical_path, fc.file_path) AS canonical_path,
+             fc.function_name,
+             fc.start_line,
+             fc.end_line,
+             (fc.end_line - fc.start_line + 1) AS lines,
+             fc.parameters,
+             fc.cyclomatic,
+             fc.cognitive,
+             fc.commit_sha
+           FROM function_complexity fc
+           JOIN latest l ON l.commit_sha = fc.commit_sha
+           WHERE fc.repository_id = $1
+             AND ($3::text IS NULL OR COALESCE(fc.canonical_path, fc.file_path) = $3)
+         ) ranked
+         ORDER BY ${orderBy}
+         LIMIT $2`,
+        [request.params.id, limit, file],
+      );
+
+      if (!worst.rows.length) {
+        return [];
+      }
+
+      // ...then follow each one back through earlier snapshots. Functions are
+      // matched by canonical path and name, so renamed files keep their trend.
+      const trend = await query<{
+        canonical_path: string;
+        function_name: string;
+        commit_sha: string;
+        committed_at: string;
+        lines: number;
+        cyclomatic: number;
+        cognitive: number;
+      }>(
+        `SELECT
+            COALESCE(fc.canonical_path, fc.file_path) AS canonical_path,
+            fc.function_name,
+            fc.commit_sha,
+            MAX(c.committed_at) AS committed_at,
+            MAX(fc.end_line - fc.start_line + 1)::int AS lines,
+            MAX(fc.cyclomatic)::int AS cyclomatic,
+            MAX(fc.cognitive)::int AS cognitive
+         FROM function_complexity fc
+         JOIN commits c ON c.repository_id = fc.repository_id AND c.sha = fc.commit_sha
+         JOIN unnest($2::text[], $3::text[]) AS f(canonical_path, function_name)
+           ON f.canonical_path = COALESCE(fc.canonical_path, fc.file_path)
+          AND f.function_name = fc.function_name
+         WHERE fc.repository_id = $1
+         GROUP BY 1, 2, 3
+         ORDER BY committed_at ASC`,
+        [
+          request.params.id,
+          worst.rows.map((row) => row.canonical_path),
+          worst.rows.map((row) => row.function_name),
+        ],
+      );
+
+      const trendByFunction = new Map<
+        string,
+        Array<{
+          commit_sha: string;
+          committed_at: string;
+          lines: number;
+          cyclomatic: number;
+          cognitive: number;
+        }>
+      >();
+      for (const row of trend.rows) {
+        const key = `${row.canonical_path}\u0000${row.function_name}`;
+        const points = trendByFunction.get(key) ?? [];
+        points.push({
+          commit_sha: row.commit_sha,
+          committed_at: row.committed_at,
+          lines: row.lines,
+          cyclomatic: row.cyclomatic,
+          cognitive: row.cognitive,
+        });
+        trendByFunction.set(key, points);
+      }
+
+      return worst.rows.map((row) => {
+        const key = `${row.canonical_path}\u0000${row.function_name}`;
+        return { ...row, trend: trendByFunction.get(key) ?? [] };
+      });
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/releases",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to read releases.");
+      }
+
+      return listReleases(request.params.id);
+    },
+  );
+
+  app.get<{ Params: { id: string; tag: string } }>(
+    "/api/repositories/:id/releases/:tag/report",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to read releases.");
+      }
+
+      const limit = parseLimit(
+        (request.query as { limit?: string | number })?.limit,
+        10,
+      );
+      const report = await getReleaseReport(
+        request.params.id,
+        request.params.tag,
+        limit,
+        await getRepositoryPath(request.params.id),
+      );
+      if (!report) {
+        return reply.notFound("Release not found.");
+      }
+
+      return report;
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/semver",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read semver impact.",
+        );
+      }
+
+      const { id } = request.params;
+      const queryParams = request.query as { from?: string; to?: string };
+      const toRef = queryParams?.to?.trim() || "HEAD";
+      const fromRef = queryParams?.from?.trim() || null;
+
+      const to = await resolveRef(id, toRef);
+      if (!to) {
+        return reply.notFound(`Unknown ref: ${toRef}`);
+      }
+
+      // Without `from`, the range starts at the previous release.
+      const repoPath = await getRepositoryPath(id);
+      const from = fromRef
+        ? await resolveRef(id, fromRef)
+        : await findPreviousRelease(id, to, repoPath);
+      if (fromRef && !from) {
+        return reply.notFound(`Unknown ref: ${fromRef}`);
+      }
+      if (
+        fromRef &&
+        from &&
+        new Date(from.committed_at) > new Date(to.committed_at)
+      ) {
+        return reply.badRequest("from must not be newer than to.");
+      }
+
+      return getSemverImpact(id, from, to, repoPath);
+    },
+  );
+
+  app.get<{ Params: { id: string; path: string } }>(
+    "/api/repositories/:id/files/:path/lineage",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to read lineage.");
+      }
+
+      const filePath = request.params.path?.trim();
+      if (!filePath) {
+        return reply.badRequest("File path is required.");
+      }
+
+      return getFileLineage(request.params.id, filePath);
+    },
+  );
+
+  app.get<{ Params: { id: string; path: string } }>(
+    "/api/repositories/:id/files/:path/history",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest(
+          "DATABASE_URL must be set to read file history.",
+        );
+      }
+
+      const filePath = request.params.path?.trim();
+      if (!filePath) {
+        return reply.badRequest("File path is required.");
+      }
+
+      const limit = parseLimit(
+        (request.query as { limit?: string | number })?.limit,
+        // Every retained run by default (all of them when retention is off).
+        Math.min(app.config.FILE_METRICS_HISTORY_RUNS || MAX_LIMIT, MAX_LIMIT),
+      );
+
+      return getFileMetricsHistory(request.params.id, filePath, limit);
+    },
+  );
+
+  app.get<{ Params: { id: string } }>(
+    "/api/repositories/:id/movers",
+    async (request, reply) => {
+      if (!app.config.DATABASE_URL) {
+        return reply.badRequest("DATABASE_URL must be set to read movers.");
+      }
+
+      const queryParams = request.query as {
+        metric?: string;
+        limit?: string | number;
+      };
+      const metric = queryParams?.metric ?? "hotspot_score";
+      if (!FILE_METRIC_FIELDS.includes(metric as FileMetricField)) {
+        return reply.badRequest(
+          `metric must be one of ${FILE_METRIC_FIELDS.join(", ")}.`,
+        );
+      }
+
+      return listFileMetricMovers(
+        request.params.id,
+        metric as FileMetricField,
+        parseLimit(queryParams?.limit),
+      );
+    },
+  );
+
   app.get<{ Params: { id: string } }>(
     "/api/repositories/:id/timeline",
     async (request, reply) => {
@@ -874,20 +2441,27 @@ export async function repositoryRoutes(app: FastifyInstance) {
         return reply.badRequest("DATABASE_URL must be set to read timeline.");
       }
 
+      const merges = parseMergeFilter(
+        (request.query as { merges?: string })?.merges,
+      );
+
       const result = await query<{
         bucket: string;
         commit_count: number;
+        merge_count: number;
         additions: number | null;
         deletions: number | null;
       }>(
         `SELECT
             date_trunc('week', c.committed_at) AS bucket,
             COUNT(DISTINCT c.id)::int AS commit_count,
+            COUNT(DISTINCT c.id) FILTER (WHERE c.is_merge)::int AS merge_count,
             COALESCE(SUM(fc.additions), 0)::int AS additions,
             COALESCE(SUM(fc.deletions), 0)::int AS deletions
          FROM commits c
          LEFT JOIN file_changes fc ON fc.commit_id = c.id
          WHERE c.repository_id = $1
+           ${mergeFilterSql(merges, "c.is_merge")}
          GROUP BY bucket
          ORDER BY bucket`,
         [request.params.id],
@@ -906,8 +2480,17 @@ export async function repositoryRoutes(app: FastifyInstance) {
         );
       }
 
+      const queryParams = request.query as {
+        merges?: string;
+        minConfidence?: string | number;
+      };
+      const merges = parseMergeFilter(queryParams?.merges);
+      const minConfidence = parseMinConfidence(queryParams?.minConfidence);
+
         const result = await query<{
           bucket: string;
+          merges: number;
+          avg_confidence: number;
           feat: number;
           fix: number;
           docs: number;
@@ -924,12 +2507,20 @@ export async function repositoryRoutes(app: FastifyInstance) {
           `WITH classified AS (
               SELECT
                 date_trunc('week', committed_at) AS bucket,
-                ${COMMIT_CLASSIFICATION_SQL} AS classification_effective
+                is_merge,
+                classification_confidence,
+                CASE
+                  WHEN classification_confidence < $2 THEN 'unknown'
+                  ELSE ${COMMIT_CLASSIFICATION_SQL}
+                END AS classification_effective
               FROM commits
               WHERE repository_id = $1
+                ${mergeFilterSql(merges)}
            )
            SELECT
               bucket,
+              SUM(CASE WHEN is_merge THEN 1 ELSE 0 END)::int AS merges,
+              AVG(classification_confidence)::float8 AS avg_confidence,
               SUM(CASE WHEN classification_effective = 'feat' THEN 1 ELSE 0 END)::int AS feat,
               SUM(CASE WHEN classification_effective = 'fix' THEN 1 ELSE 0 END)::int AS fix,
               SUM(CASE WHEN classification_effective = 'docs' THEN 1 ELSE 0 END)::int AS docs,
@@ -945,7 +2536,7 @@ export async function repositoryRoutes(app: FastifyInstance) {
            FROM classified
            GROUP BY bucket
            ORDER BY bucket`,
-          [request.params.id],
+          [request.params.id, minConfidence],
         );
 
       return result.rows;
@@ -1,21 +1,33 @@
+import { recordAnalysisRunScoringProfile } from "../lib/analysisRuns.js";
 import { touchRepositoryAnalyzed } from "../lib/repositories.js";
-import { computeComplexitySnapshots } from "./complexity.js";
-import { ingestRepository } from "./ingestion.js";
+import {
+  type ComplexitySampling,
+  computeComplexitySnapshots,
+} from "./complexity.js";
+import { computeFileCoupling } from "./coupling.js";
+import type { HistoryMode } from "./git.js";
+import { type IngestionMode, ingestRepository } from "./ingestion.js";
 import { generateInsights } from "./insights.js";
 import { computeFileMetrics } from "./metrics.js";
+import { recordFileMetricsHistory } from "./metricsHistory.js";
 import { computeOwnership } from "./ownership.js";
+import { refreshGitattributeRules } from "./pathFilters.js";
 import { runQualityAnalysis } from "./quality.js";
+import { computeBugIntroductions } from "./szz.js";
 
 export type AnalysisInput = {
   repoUrl: string;
   branch?: string;
   maxCommits?: number;
+  historyMode?: HistoryMode;
+  complexitySampling?: ComplexitySampling;
   analysisRunId?: string;
 };
 
 export type AnalysisSummary = {
   repositoryId: string;
   defaultBranch: string;
+  ingestionMode: IngestionMode;
   commitCount: number;
   fileChangeCount: number;
 };
@@ -26,14 +38,35 @@ export async function runAnalysis(
   const ingestion = await ingestRepository(input.repoUrl, {
     branch: input.branch,
     maxCommits: input.maxCommits,
+    historyMode: input.historyMode,
   });
 
   const recentDays =
     Number.parseInt(process.env.ANALYSIS_RECENT_DAYS || "90", 10) || 90;
 
-  await computeFileMetrics(ingestion.repositoryId, recentDays);
+  // Path filters honor the `.gitattributes` of the analyzed head.
+  await refreshGitattributeRules(
+    ingestion.repositoryId,
+    ingestion.repoPath,
+    ingestion.headSha,
+  );
+  // Complexity runs first so a scoring profile can weight hotspots by it.
+  await computeComplexitySnapshots(
+    ingestion.repositoryId,
+    ingestion.repoPath,
+    input.complexitySampling,
+  );
+  const scoringProfile = await computeFileMetrics(
+    ingestion.repositoryId,
+    recentDays,
+  );
+  if (input.analysisRunId) {
+    await recordAnalysisRunScoringProfile(input.analysisRunId, scoringProfile);
+    await recordFileMetricsHistory(ingestion.repositoryId, input.analysisRunId);
+  }
   await computeOwnership(ingestion.repositoryId);
-  await computeComplexitySnapshots(ingestion.repositoryId, ingestion.repoPath);
+  await computeFileCoupling(ingestion.repositoryId);
+  await computeBugIntroductions(ingestion.repositoryId, ingestion.repoPath);
   await generateInsights(ingestion.repositoryId, input.analysisRunId);
   await touchRepositoryAnalyzed(ingestion.repositoryId);
   try {
@@ -52,6 +85,7 @@ export async function runAnalysis(
   return {
     repositoryId: ingestion.repositoryId,
     defaultBranch: ingestion.defaultBranch,
+    ingestionMode: ingestion.mode,
     commitCount: ingestion.commitCount,
     fileChangeCount: ingestion.fileChangeCount,
   };
@@ -0,0 +1,314 @@
+import { countOperatorRuns, type FunctionComplexity } from "./types.js";
+
+export type CLikeOptions = {
+  /** Go: backtick-quoted raw strings. */
+  rawStrings?: boolean;
+  /** Java: `"""` text blocks. */
+  textBlocks?: boolean;
+  /**
+   * Go terminates statements at newlines and uses `;` inside `if`/`for`
+   * headers, so block headers are delimited by newlines instead of `;`.
+   */
+  newlineTerminates?: boolean;
+  nestingKeywords: string[];
+};
+
+export type CLikeRules = {
+  /** Keywords that each add a path for cyclomatic complexity. */
+  decisionRe: RegExp;
+  /** Header keywords that add `1 + nesting` for cognitive complexity. */
+  structuralKeywords: string[];
+  ternaryRe?: RegExp;
+};
+
+export type CLikeFunction = {
+  block: CodeBlock;
+  name: string;
+  parameters: number;
+};
+
+export type CodeBlock = {
+  /** Source text between the previous statement boundary and the `{`. */
+  header: string;
+  /** Line where the header starts, so multi-line signatures are included. */
+  startLine: number;
+  endLine: number;
+  /** Offsets of the braces in the stripped source. */
+  start: number;
+  end: number;
+  /** Nesting depth of the block itself, counting only nesting constructs. */
+  depth: number;
+  nesting: boolean;
+};
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/**
+ * Replaces comments, string and character literals with spaces so keyword
+ * and brace scanning cannot be fooled by them. Line breaks are preserved.
+ */
+export function stripCLikeSource(source: string, options: CLikeOptions) {
+  let output = "";
+  let index = 0;
+
+  const consumeUntil = (terminator: string, from: number, escapes: boolean) => {
+    let cursor = from;
+    while (cursor < source.length) {
+      if (escapes && source[cursor] === "\\") {
+        cursor += 2;
+        continue;
+      }
+      if (source.startsWith(terminator, cursor)) {
+        return cursor + terminator.length;
+      }
+      // Unterminated single-line literals stop at the end of the line.
+      if (terminator.length === 1 && terminator !== "`") {
+        if (source[cursor] === "\n") {
+          return cursor;
+        }
+      }
+      cursor += 1;
+    }
+    return cursor;
+  };
+
+  while (index < source.length) {
+    let end = index;
+    if (source.startsWith("//", index)) {
+      end = source.indexOf("\n", index);
+      end = end === -1 ? source.length : end;
+    } else if (source.startsWith("/*", index)) {
+      end = source.indexOf("*/", index + 2);
+      end = end === -1 ? source.length : end + 2;
+    } else if (options.textBlocks && source.startsWith('"""', index)) {
+      end = consumeUntil('"""', index + 3, true);
+    } else if (source[index] === '"' || source[index] === "'") {
+      end = consumeUntil(source[index] ?? '"', index + 1, true);
+    } else if (options.rawStrings && source[index] === "`") {
+      end = consumeUntil("`", index + 1, false);
+    }
+
+    if (end > index) {
+      output += blank(source.slice(index, end));
+      index = end;
+    } else {
+      output += source[index];
+      index += 1;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Walks `{`/`}` pairs of stripped source. A block counts towards nesting when
+ * its header starts with one of the nesting keywords (`} else {` included).
+ */
+export function scanCLikeBlocks(code: string, options: CLikeOptions) {
+  const keywordRe = new RegExp(
+    `^\\s*(?:${options.nestingKeywords.join("|")})\\b`,
+  );
+  const blocks: CodeBlock[] = [];
+  const open: CodeBlock[] = [];
+  let header = "";
+  let headerLine = 0;
+  let parenDepth = 0;
+  let line = 1;
+  let depth = 0;
+  let maxNesting = 0;
+
+  const resetHeader = () => {
+    header = "";
+    headerLine = 0;
+  };
+
+  for (let index = 0; index < code.length; index += 1) {
+    const char = code[index] ?? "";
+    if (char === "\n") {
+      line += 1;
+      if (options.newlineTerminates && parenDepth === 0) {
+        resetHeader();
+        continue;
+      }
+    }
+
+    if (char === "(") {
+      parenDepth += 1;
+    } else if (char === ")") {
+      parenDepth = Math.max(parenDepth - 1, 0);
+    }
+
+    if (char === "{") {
+      const nesting = keywordRe.test(header);
+      if (nesting) {
+        depth += 1;
+        maxNesting = Math.max(maxNesting, depth);
+      }
+      const block = {
+        header: header.trim(),
+        startLine: headerLine || line,
+        endLine: line,
+        start: index,
+        end: code.length,
+        depth,
+        nesting,
+      };
+      blocks.push(block);
+      open.push(block);
+      resetHeader();
+      parenDepth = 0;
+      continue;
+    }
+
+    if (char === "}") {
+      const block = open.pop();
+      if (block) {
+        block.endLine = line;
+        block.end = index;
+        if (block.nesting) {
+          depth -= 1;
+        }
+      }
+      resetHeader();
+      continue;
+    }
+
+    if (char === ";" && !options.newlineTerminates && parenDepth === 0) {
+      resetHeader();
+      continue;
+    }
+
+    if (!headerLine && char.trim()) {
+      headerLine = line;
+    }
+    header += char;
+  }
+
+  return { blocks, maxNesting };
+}
+
+function contains(outer: CodeBlock, inner: CodeBlock): boolean {
+  return inner.start > outer.start && inner.end < outer.end;
+}
+
+function blankRange(text: string, start: number, end: number): string {
+  return text.slice(0, start) + blank(text.slice(start, end)) + text.slice(end);
+}
+
+/**
+ * Measures each function block of stripped source. Blocks and decisions inside
+ * nested functions are attributed to the nested function only.
+ */
+export function measureCLikeFunctions(
+  code: string,
+  blocks: CodeBlock[],
+  functions: CLikeFunction[],
+  rules: CLikeRules,
+  options: CLikeOptions,
+): FunctionComplexity[] {
+  const structuralRe = new RegExp(
+    `^(?:${rules.structuralKeywords.join("|")})\\b`,
+  );
+  const operatorRe = options.newlineTerminates
+    ? /&&|\|\||[;{}\n]/g
+    : /&&|\|\||[;{}]/g;
+
+  return functions.map(({ block, name, parameters }) => {
+    const nested = functions
+      .map((fn) => fn.block)
+      .filter((other) => contains(block, other));
+    const owned = blocks.filter(
+      (other) =>
+        contains(block, other) &&
+        !nested.some((fn) => fn === other || contains(fn, other)),
+    );
+
+    let body = code.slice(0, block.end);
+    for (const fn of nested) {
+      body = blankRange(body, fn.start, fn.end + 1);
+    }
+    body = body.slice(block.start + 1);
+
+    // Nesting inside the function, excluding the block's own contribution.
+    const nestingOf = (other: CodeBlock) =>
+      (other.nesting ? other.depth - 1 : other.depth) - block.depth;
+
+    let cognitive = 0;
+    for (const other of owned) {
+      if (!other.nesting) {
+        continue;
+      }
+      if (/^else\b/.test(other.header)) {
+        cognitive += 1;
+      } else if (/^if\b/.test(other.header)) {
+        cognitive += 1 + nestingOf(other);
+      } else if (structuralRe.test(other.header)) {
+        cognitive += 1 + nestingOf(other);
+      }
+    }
+
+    let ternaries = 0;
+    if (rules.ternaryRe) {
+      for (const match of body.matchAll(rules.ternaryRe)) {
+        const offset = block.start + 1 + (match.index ?? 0);
+        const level = owned.filter(
+          (other) =>
+            other.nesting && other.start < offset && other.end > offset,
+        ).length;
+        cognitive += 1 + level;
+        ternaries += 1;
+      }
+    }
+
+    const operators: string[] = [];
+    let logical = 0;
+    for (const match of body.matchAll(operatorRe)) {
+      if (match[0] === "&&" || match[0] === "||") {
+        operators.push(match[0]);
+        logical += 1;
+      } else {
+        cognitive += countOperatorRuns(operators);
+        operators.length = 0;
+      }
+    }
+    cognitive += countOperatorRuns(operators);
+    cognitive += countMatches(body, /\b(?:break|continue)[ \t]+[A-Za-z_]\w*/g);
+
+    return {
+      name,
+      startLine: block.startLine,
+      endLine: block.endLine,
+      parameters,
+      cyclomatic:
+        1 + countMatches(body, rules.decisionRe) + logical + ternaries,
+      cognitive,
+    };
+  });
+}
+
+/** Name of the nearest enclosing block whose header matches `pattern`. */
+export function enclosingName(
+  blocks: CodeBlock[],
+  block: CodeBlock,
+  pattern: RegExp,
+): string | null {
+  let name: string | null = null;
+  let innermost: CodeBlock | null = null;
+  for (const other of blocks) {
+    if (!contains(other, block)) {
+      continue;
+    }
+    const match = other.header.match(pattern);
+    if (match?.[1] && (!innermost || contains(innermost, other))) {
+      name = match[1];
+      innermost = other;
+    }
+  }
+  return name;
+}
+
+export function countMatches(code: string, pattern: RegExp): number {
+  return code.match(pattern)?.length ?? 0;
+}
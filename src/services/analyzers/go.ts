@@ -0,0 +1,98 @@
+import {
+  type CLikeFunction,
+  type CLikeOptions,
+  type CLikeRules,
+  type CodeBlock,
+  countMatches,
+  measureCLikeFunctions,
+  scanCLikeBlocks,
+  stripCLikeSource,
+} from "./clike.js";
+import {
+  countLines,
+  hasExtension,
+  type LanguageAnalyzer,
+  readBalanced,
+  splitTopLevel,
+} from "./types.js";
+
+const GO_OPTIONS: CLikeOptions = {
+  rawStrings: true,
+  newlineTerminates: true,
+  nestingKeywords: ["if", "else", "for", "switch", "select"],
+};
+
+const GO_RULES: CLikeRules = {
+  decisionRe: /\b(?:if|for|case)\b/g,
+  structuralKeywords: ["for", "switch", "select"],
+};
+
+/**
+ * `func Name(...)`, `func (r *Recv) Name(...)` and `func(...)` literals;
+ * methods are reported as `Recv.Name`.
+ */
+function parseFunctionHeader(block: CodeBlock): CLikeFunction | null {
+  const match = block.header.match(/\bfunc\b\s*/);
+  if (!match) {
+    return null;
+  }
+
+  let cursor = (match.index ?? 0) + match[0].length;
+  let receiver: string | null = null;
+  let group = readBalanced(block.header, cursor);
+  const rest = group ? block.header.slice(group.end + 1) : "";
+  if (group && /^\s*\w+\s*\(/.test(rest)) {
+    receiver = group.inner.match(/(\w+)(?:\[[^\]]*\])?\s*$/)?.[1] ?? null;
+    cursor = group.end + 1 + (rest.match(/^\s*/)?.[0].length ?? 0);
+  }
+
+  const name = block.header.slice(cursor).match(/^\w+/)?.[0] ?? null;
+  if (name) {
+    cursor += name.length;
+  }
+  // Type parameters: `func Map[T any](...)`.
+  if (block.header[cursor] === "[") {
+    const close = block.header.indexOf("]", cursor);
+    cursor = close === -1 ? cursor : close + 1;
+  }
+  group = readBalanced(block.header, cursor);
+  if (!group) {
+    return null;
+  }
+
+  const qualified = name && receiver ? `${receiver}.${name}` : name;
+  return {
+    block,
+    name: qualified ?? "<anonymous>",
+    parameters: splitTopLevel(group.inner).length,
+  };
+}
+
+function analyzeSource(source: string) {
+  const code = stripCLikeSource(source, GO_OPTIONS);
+  const { blocks, maxNesting } = scanCLikeBlocks(code, GO_OPTIONS);
+  const functions = blocks
+    .map((block) => parseFunctionHeader(block))
+    .filter((fn): fn is CLikeFunction => fn !== null);
+
+  return {
+    // Declarations, methods and function literals all use `func`.
+    functions: countMatches(code, /\bfunc\b/g),
+    conditionals: countMatches(code, /\b(?:if|switch|select)\b/g),
+    maxNesting,
+    lines: countLines(source),
+    functionMetrics: measureCLikeFunctions(
+      code,
+      blocks,
+      functions,
+      GO_RULES,
+      GO_OPTIONS,
+    ),
+  };
+}
+
+export const goAnalyzer: LanguageAnalyzer = {
+  id: "go",
+  matches: (filePath) => hasExtension(filePath, [".go"]),
+  analyze: analyzeSource,
+};
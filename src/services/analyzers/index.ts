@@ -0,0 +1,21 @@
+import { goAnalyzer } from "./go.js";
+import { javaAnalyzer } from "./java.js";
+import { pythonAnalyzer } from "./python.js";
+import type { LanguageAnalyzer } from "./types.js";
+import { typescriptAnalyzer } from "./typescript.js";
+
+export type { FileComplexity, LanguageAnalyzer } from "./types.js";
+
+/** Checked in order; the first analyzer whose `matches` accepts a path wins. */
+export const LANGUAGE_ANALYZERS: LanguageAnalyzer[] = [
+  typescriptAnalyzer,
+  pythonAnalyzer,
+  goAnalyzer,
+  javaAnalyzer,
+];
+
+export function findAnalyzer(filePath: string): LanguageAnalyzer | null {
+  return (
+    LANGUAGE_ANALYZERS.find((analyzer) => analyzer.matches(filePath)) ?? null
+  );
+}
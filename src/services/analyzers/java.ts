@@ -0,0 +1,161 @@
+import {
+  type CLikeFunction,
+  type CLikeOptions,
+  type CLikeRules,
+  type CodeBlock,
+  countMatches,
+  enclosingName,
+  measureCLikeFunctions,
+  scanCLikeBlocks,
+  stripCLikeSource,
+} from "./clike.js";
+import {
+  countLines,
+  hasExtension,
+  type LanguageAnalyzer,
+  splitTopLevel,
+} from "./types.js";
+
+const JAVA_OPTIONS: CLikeOptions = {
+  textBlocks: true,
+  nestingKeywords: [
+    "if",
+    "else",
+    "for",
+    "while",
+    "do",
+    "switch",
+    "try",
+    "catch",
+    "finally",
+  ],
+};
+
+// `?` also appears in generic wildcards (`List<?>`, `? extends T`).
+const TERNARY_RE = /(?<!<\s*)\?(?!\s*(?:extends\b|super\b|[>,]))/g;
+
+const JAVA_RULES: CLikeRules = {
+  decisionRe: /\b(?:if|for|while|case|catch)\b/g,
+  structuralKeywords: ["for", "while", "do", "switch", "catch"],
+  ternaryRe: TERNARY_RE,
+};
+
+const TYPE_DECLARATION_RE = /\b(?:class|interface|enum|record)\s+(\w+)/;
+
+const NON_METHOD_NAMES = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "try",
+  "synchronized",
+  "return",
+  "new",
+]);
+
+/**
+ * Methods and constructors: `name(params) {` that is not a control statement,
+ * anonymous class body or record header. Returns the parameter list.
+ */
+function parseMethodHeader(header: string) {
+  const signature = header.replace(/\s*throws\s+[\w.,\s<>]+$/, "");
+  if (!signature.endsWith(")")) {
+    return null;
+  }
+
+  let depth = 0;
+  let open = -1;
+  for (let index = signature.length - 1; index >= 0; index -= 1) {
+    if (signature[index] === ")") {
+      depth += 1;
+    } else if (signature[index] === "(") {
+      depth -= 1;
+      if (depth === 0) {
+        open = index;
+        break;
+      }
+    }
+  }
+
+  const before = signature.slice(0, Math.max(open, 0)).trimEnd();
+  const name = open === -1 ? null : before.match(/(\w+)$/)?.[1];
+  if (!name || NON_METHOD_NAMES.has(name)) {
+    return null;
+  }
+  const prefix = before.slice(0, before.length - name.length);
+  if (prefix.includes("=") || /(?:\bnew|\brecord|->|\.)\s*$/.test(prefix)) {
+    return null;
+  }
+  return { name, params: signature.slice(open + 1, -1) };
+}
+
+function parseFunctionBlock(
+  blocks: CodeBlock[],
+  block: CodeBlock,
+): CLikeFunction | null {
+  if (block.nesting) {
+    return null;
+  }
+
+  const lambda = block.header.match(/(\([^()]*\)|\w+)\s*->$/);
+  if (lambda?.[1] && !/^(?:case|default)\b/.test(block.header)) {
+    return {
+      block,
+      name: "<lambda>",
+      parameters: splitTopLevel(lambda[1].replace(/^\(|\)$/g, "")).length,
+    };
+  }
+
+  const method = parseMethodHeader(block.header);
+  if (!method) {
+    return null;
+  }
+  const owner = enclosingName(blocks, block, TYPE_DECLARATION_RE);
+  return {
+    block,
+    name: owner ? `${owner}.${method.name}` : method.name,
+    parameters: splitTopLevel(method.params).length,
+  };
+}
+
+function countLambdas(code: string): number {
+  let count = 0;
+  for (const line of code.split("\n")) {
+    const arrows = countMatches(line, /->/g);
+    // Arrow-style switch labels (`case X ->`) are not lambdas.
+    const labels = countMatches(line, /\b(?:case|default)\b[^;]*?->/g);
+    count += Math.max(arrows - labels, 0);
+  }
+  return count;
+}
+
+function analyzeSource(source: string) {
+  const code = stripCLikeSource(source, JAVA_OPTIONS);
+  const { blocks, maxNesting } = scanCLikeBlocks(code, JAVA_OPTIONS);
+  const functions = blocks
+    .map((block) => parseFunctionBlock(blocks, block))
+    .filter((fn): fn is CLikeFunction => fn !== null);
+  const methods = functions.filter((fn) => fn.name !== "<lambda>").length;
+
+  return {
+    functions: methods + countLambdas(code),
+    conditionals:
+      countMatches(code, /\b(?:if|switch)\b/g) + countMatches(code, TERNARY_RE),
+    maxNesting,
+    lines: countLines(source),
+    functionMetrics: measureCLikeFunctions(
+      code,
+      blocks,
+      functions,
+      JAVA_RULES,
+      JAVA_OPTIONS,
+    ),
+  };
+}
+
+export const javaAnalyzer: LanguageAnalyzer = {
+  id: "java",
+  matches: (filePath) => hasExtension(filePath, [".java"]),
+  analyze: analyzeSource,
+};
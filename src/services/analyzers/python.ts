@@ -0,0 +1,284 @@
+import {
+  countLines,
+  countOperatorRuns,
+  type FunctionComplexity,
+  hasExtension,
+  type LanguageAnalyzer,
+  readBalanced,
+  splitTopLevel,
+} from "./types.js";
+
+const NESTING_RE =
+  /^(?:async\s+)?(?:if|elif|else|for|while|try|except|finally|match)\b/;
+const FUNCTION_RE = /^(?:async\s+)?def\s+(\w+)/;
+const CLASS_RE = /^class\s+(\w+)/;
+const LEADING_KEYWORD_RE =
+  /^(?:async\s+)?(if|elif|else|for|while|except|match|case)\b/;
+const IMPLICIT_PARAMETERS = new Set(["self", "cls", "*", "/"]);
+const MATCH_STATEMENT_RE = /^match\b.*:$/;
+
+type LogicalLine = {
+  indent: number;
+  text: string;
+  line: number;
+  endLine: number;
+};
+
+type ScopeEntry = {
+  indent: number;
+  kind: "nesting" | "function" | "class";
+  name?: string;
+  metrics?: FunctionComplexity;
+};
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/** Replaces comments and string literals (triple-quoted included) with spaces. */
+function stripPythonSource(source: string): string {
+  let output = "";
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index] ?? "";
+    let end = index;
+
+    if (char === "#") {
+      end = source.indexOf("\n", index);
+      end = end === -1 ? source.length : end;
+    } else if (char === '"' || char === "'") {
+      const triple = source.startsWith(char.repeat(3), index);
+      const terminator = triple ? char.repeat(3) : char;
+      end = index + terminator.length;
+      while (end < source.length) {
+        if (source[end] === "\\") {
+          end += 2;
+          continue;
+        }
+        if (source.startsWith(terminator, end)) {
+          end += terminator.length;
+          break;
+        }
+        if (!triple && source[end] === "\n") {
+          break;
+        }
+        end += 1;
+      }
+    }
+
+    if (end > index) {
+      output += blank(source.slice(index, end));
+      index = end;
+    } else {
+      output += char;
+      index += 1;
+    }
+  }
+
+  return output;
+}
+
+function measureIndent(line: string): number {
+  let indent = 0;
+  for (const char of line) {
+    if (char === " ") {
+      indent += 1;
+    } else if (char === "\t") {
+      indent += 8 - (indent % 8);
+    } else {
+      break;
+    }
+  }
+  return indent;
+}
+
+/** Joins bracketed and backslash-continued physical lines. */
+function toLogicalLines(code: string): LogicalLine[] {
+  const logical: LogicalLine[] = [];
+  let current: LogicalLine | null = null;
+  let brackets = 0;
+
+  for (const [index, line] of code.split(/\r?\n/).entries()) {
+    if (!current) {
+      if (!line.trim()) {
+        continue;
+      }
+      current = {
+        indent: measureIndent(line),
+        text: "",
+        line: index + 1,
+        endLine: index + 1,
+      };
+    }
+
+    current.text += ` ${line.trim()}`;
+    current.endLine = index + 1;
+    for (const char of line) {
+      if (char === "(" || char === "[" || char === "{") {
+        brackets += 1;
+      } else if (char === ")" || char === "]" || char === "}") {
+        brackets = Math.max(brackets - 1, 0);
+      }
+    }
+
+    if (brackets > 0 || line.trimEnd().endsWith("\\")) {
+      continue;
+    }
+
+    current.text = current.text.trim();
+    logical.push(current);
+    current = null;
+  }
+
+  if (current) {
+    current.text = current.text.trim();
+    logical.push(current);
+  }
+
+  return logical;
+}
+
+function countParameters(text: string): number {
+  const open = text.indexOf("(");
+  const group = open === -1 ? null : readBalanced(text, open);
+  if (!group) {
+    return 0;
+  }
+  return splitTopLevel(group.inner).filter(
+    (param) => !IMPLICIT_PARAMETERS.has(param.split(/[:=]/)[0]?.trim() ?? ""),
+  ).length;
+}
+
+/** Adds the cyclomatic/cognitive cost of one logical line to its function. */
+function measureLine(
+  metrics: FunctionComplexity,
+  text: string,
+  nesting: number,
+) {
+  const keyword = text.match(LEADING_KEYWORD_RE);
+  const rest = keyword ? text.slice(keyword[0].length) : text;
+
+  switch (keyword?.[1]) {
+    case "if":
+    case "for":
+    case "while":
+    case "except":
+      metrics.cyclomatic += 1;
+      metrics.cognitive += 1 + nesting;
+      break;
+    case "elif":
+      metrics.cyclomatic += 1;
+      metrics.cognitive += 1;
+      break;
+    case "else":
+      metrics.cognitive += 1;
+      break;
+    case "match":
+      metrics.cognitive += 1 + nesting;
+      break;
+    case "case":
+      if (!/^\s*_\s*:/.test(rest)) {
+        metrics.cyclomatic += 1;
+      }
+      break;
+  }
+
+  // Conditional expressions and comprehension clauses inside the line.
+  const inlineIfs = rest.match(/\bif\b/g)?.length ?? 0;
+  metrics.cyclomatic += inlineIfs + (rest.match(/\bfor\b/g)?.length ?? 0);
+  metrics.cognitive += inlineIfs * (1 + nesting);
+
+  const operators = rest.match(/\b(?:and|or)\b/g) ?? [];
+  metrics.cyclomatic += operators.length;
+  metrics.cognitive += countOperatorRuns(operators);
+}
+
+function analyzeSource(source: string) {
+  const code = stripPythonSource(source);
+  const scope: ScopeEntry[] = [];
+  const functionMetrics: FunctionComplexity[] = [];
+
+  let functions = 0;
+  let conditionals = 0;
+  let maxNesting = 0;
+
+  for (const line of toLogicalLines(code)) {
+    while (
+      scope.length &&
+      (scope[scope.length - 1]?.indent ?? 0) >= line.indent
+    ) {
+      scope.pop();
+    }
+
+    const ownerIndex = scope.findLastIndex(
+      (entry) => entry.kind === "function",
+    );
+    const owner = scope[ownerIndex]?.metrics;
+    if (owner) {
+      const nesting = scope
+        .slice(ownerIndex + 1)
+        .filter((entry) => entry.kind === "nesting").length;
+      measureLine(owner, line.text, nesting);
+    }
+    for (const entry of scope) {
+      if (entry.metrics) {
+        entry.metrics.endLine = line.endLine;
+      }
+    }
+
+    const definition = line.text.match(FUNCTION_RE);
+    if (definition?.[1]) {
+      functions += 1;
+      const className = scope.findLast((entry) => entry.kind === "class")?.name;
+      const metrics: FunctionComplexity = {
+        name: className ? `${className}.${definition[1]}` : definition[1],
+        startLine: line.line,
+        endLine: line.endLine,
+        parameters: countParameters(line.text),
+        cyclomatic: 1,
+        cognitive: 0,
+      };
+      functionMetrics.push(metrics);
+      scope.push({ indent: line.indent, kind: "function", metrics });
+    }
+    functions += line.text.match(/\blambda\b/g)?.length ?? 0;
+
+    const classDefinition = line.text.match(CLASS_RE);
+    if (classDefinition?.[1]) {
+      scope.push({
+        indent: line.indent,
+        kind: "class",
+        name: classDefinition[1],
+      });
+    }
+
+    // `if`/`elif` statements, conditional expressions and `match` statements.
+    conditionals += line.text.match(/\b(?:if|elif)\b/g)?.length ?? 0;
+    if (MATCH_STATEMENT_RE.test(line.text)) {
+      conditionals += 1;
+    }
+
+    if (NESTING_RE.test(line.text)) {
+      scope.push({ indent: line.indent, kind: "nesting" });
+      maxNesting = Math.max(
+        maxNesting,
+        scope.filter((entry) => entry.kind === "nesting").length,
+      );
+    }
+  }
+
+  return {
+    functions,
+    conditionals,
+    maxNesting,
+    lines: countLines(source),
+    functionMetrics,
+  };
+}
+
+export const pythonAnalyzer: LanguageAnalyzer = {
+  id: "python",
+  matches: (filePath) => hasExtension(filePath, [".py"]),
+  analyze: analyzeSource,
+};
@@ -0,0 +1,99 @@
+export type FunctionComplexity = {
+  name: string;
+  startLine: number;
+  endLine: number;
+  parameters: number;
+  /** McCabe: 1 + decision points (branches, loops, cases, catches, `&&`/`||`). */
+  cyclomatic: number;
+  /**
+   * SonarSource-style: structural increments weighted by nesting, flat
+   * increments for `else`/`else if` and each run of mixed boolean operators.
+   * Nested functions are reported on their own and excluded from the parent.
+   */
+  cognitive: number;
+};
+
+export type FileComplexity = {
+  functions: number;
+  conditionals: number;
+  maxNesting: number;
+  lines: number;
+  functionMetrics: FunctionComplexity[];
+};
+
+export type LanguageAnalyzer = {
+  /** Stored on each complexity snapshot row as `analyzer`. */
+  id: string;
+  matches: (filePath: string) => boolean;
+  analyze: (source: string, filePath: string) => FileComplexity;
+};
+
+export function countLines(source: string): number {
+  return source ? source.split(/\r?\n/).length : 0;
+}
+
+export function hasExtension(filePath: string, extensions: string[]) {
+  const lower = filePath.toLowerCase();
+  return extensions.some((ext) => lower.endsWith(ext));
+}
+
+/** Returns the text inside the bracket pair that starts at `openIndex`. */
+export function readBalanced(
+  text: string,
+  openIndex: number,
+): { inner: string; end: number } | null {
+  const open = text[openIndex];
+  const close = open === "(" ? ")" : open === "{" ? "}" : null;
+  if (!close) {
+    return null;
+  }
+  let depth = 0;
+  for (let index = openIndex; index < text.length; index += 1) {
+    if (text[index] === open) {
+      depth += 1;
+    } else if (text[index] === close) {
+      depth -= 1;
+      if (depth === 0) {
+        return { inner: text.slice(openIndex + 1, index), end: index };
+      }
+    }
+  }
+  return null;
+}
+
+/** Splits on commas outside of brackets and generic angle brackets. */
+export function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if ("([{<".includes(char)) {
+      depth += 1;
+    } else if (")]}>".includes(char)) {
+      depth = Math.max(depth - 1, 0);
+    } else if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+/**
+ * Cognitive-complexity increment for boolean operators: one per run of the
+ * same operator, so `a && b && c` is +1 and `a && b || c` is +2.
+ */
+export function countOperatorRuns(operators: string[]): number {
+  let runs = 0;
+  let previous = "";
+  for (const operator of operators) {
+    if (operator !== previous) {
+      runs += 1;
+    }
+    previous = operator;
+  }
+  return runs;
+}
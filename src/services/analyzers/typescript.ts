@@ -0,0 +1,248 @@
+import * as ts from "typescript";
+import {
+  countLines,
+  type FunctionComplexity,
+  type LanguageAnalyzer,
+} from "./types.js";
+
+const SCRIPT_KIND_MAP: Record<string, ts.ScriptKind> = {
+  ".js": ts.ScriptKind.JS,
+  ".jsx": ts.ScriptKind.JSX,
+  ".ts": ts.ScriptKind.TS,
+  ".tsx": ts.ScriptKind.TSX,
+};
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  const ext = filePath.slice(filePath.lastIndexOf(".")).toLowerCase();
+  return SCRIPT_KIND_MAP[ext] ?? ts.ScriptKind.TS;
+}
+
+type FunctionNode =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration;
+
+function isFunctionNode(node: ts.Node): node is FunctionNode {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessor(node) ||
+    ts.isSetAccessor(node)
+  );
+}
+
+function isConditionalNode(node: ts.Node): boolean {
+  return (
+    ts.isIfStatement(node) ||
+    ts.isConditionalExpression(node) ||
+    ts.isSwitchStatement(node)
+  );
+}
+
+function isNestingNode(node: ts.Node): boolean {
+  return (
+    ts.isIfStatement(node) ||
+    ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node) ||
+    ts.isSwitchStatement(node) ||
+    ts.isTryStatement(node) ||
+    ts.isCatchClause(node)
+  );
+}
+
+/** Loops, `switch`, `catch` and `?:` add nesting-weighted cognitive cost. */
+function isStructuralNode(node: ts.Node): boolean {
+  return (
+    ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node) ||
+    ts.isSwitchStatement(node) ||
+    ts.isCatchClause(node) ||
+    ts.isConditionalExpression(node)
+  );
+}
+
+function logicalOperator(node: ts.Node): ts.SyntaxKind | null {
+  if (!ts.isBinaryExpression(node)) {
+    return null;
+  }
+  const kind = node.operatorToken.kind;
+  return kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+    kind === ts.SyntaxKind.BarBarToken ||
+    kind === ts.SyntaxKind.QuestionQuestionToken
+    ? kind
+    : null;
+}
+
+function functionName(node: FunctionNode, sourceFile: ts.SourceFile): string {
+  let name = "<anonymous>";
+  if (ts.isConstructorDeclaration(node)) {
+    name = "constructor";
+  } else if (node.name) {
+    name = node.name.getText(sourceFile);
+  } else if (
+    (ts.isVariableDeclaration(node.parent) ||
+      ts.isPropertyAssignment(node.parent) ||
+      ts.isPropertyDeclaration(node.parent)) &&
+    node.parent.name
+  ) {
+    name = node.parent.name.getText(sourceFile);
+  }
+
+  const owner = ts.isPropertyDeclaration(node.parent)
+    ? node.parent.parent
+    : node.parent;
+  if (ts.isClassLike(owner) && owner.name) {
+    return `${owner.name.getText(sourceFile)}.${name}`;
+  }
+  return name;
+}
+
+function measureFunction(
+  node: FunctionNode,
+  sourceFile: ts.SourceFile,
+): FunctionComplexity {
+  let cyclomatic = 1;
+  let cognitive = 0;
+
+  const visit = (child: ts.Node, nesting: number) => {
+    if (isFunctionNode(child)) {
+      return;
+    }
+    if (ts.isIfStatement(child)) {
+      visitIf(child, nesting, false);
+      return;
+    }
+
+    const operator = logicalOperator(child);
+    if (operator !== null) {
+      cyclomatic += 1;
+      if (logicalOperator(child.parent) !== operator) {
+        cognitive += 1;
+      }
+    }
+    if (ts.isCaseClause(child)) {
+      cyclomatic += 1;
+    }
+    if (
+      (ts.isBreakStatement(child) || ts.isContinueStatement(child)) &&
+      child.label
+    ) {
+      cognitive += 1;
+    }
+
+    const structural = isStructuralNode(child);
+    if (structural) {
+      cognitive += 1 + nesting;
+      if (!ts.isSwitchStatement(child)) {
+        cyclomatic += 1;
+      }
+    }
+
+    ts.forEachChild(child, (grandChild) =>
+      visit(grandChild, structural ? nesting + 1 : nesting),
+    );
+  };
+
+  // `else if` chains stay at the nesting level of the leading `if`.
+  const visitIf = (child: ts.IfStatement, nesting: number, elseIf: boolean) => {
+    cyclomatic += 1;
+    cognitive += elseIf ? 1 : 1 + nesting;
+    visit(child.expression, nesting);
+    visit(child.thenStatement, nesting + 1);
+
+    const elseStatement = child.elseStatement;
+    if (!elseStatement) {
+      return;
+    }
+    if (ts.isIfStatement(elseStatement)) {
+      visitIf(elseStatement, nesting, true);
+    } else {
+      cognitive += 1;
+      visit(elseStatement, nesting + 1);
+    }
+  };
+
+  if (node.body) {
+    visit(node.body, 0);
+  }
+
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+
+  return {
+    name: functionName(node, sourceFile),
+    startLine: start.line + 1,
+    endLine: end.line + 1,
+    parameters: node.parameters.length,
+    cyclomatic,
+    cognitive,
+  };
+}
+
+function analyzeSource(source: string, filePath: string) {
+  const scriptKind = getScriptKind(filePath);
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind,
+  );
+
+  let functions = 0;
+  let conditionals = 0;
+  let maxNesting = 0;
+  const functionMetrics: FunctionComplexity[] = [];
+
+  const visit = (node: ts.Node, depth: number) => {
+    if (isFunctionNode(node)) {
+      functions += 1;
+      functionMetrics.push(measureFunction(node, sourceFile));
+    }
+    if (isConditionalNode(node)) {
+      conditionals += 1;
+    }
+
+    const nextDepth = isNestingNode(node) ? depth + 1 : depth;
+    if (nextDepth > maxNesting) {
+      maxNesting = nextDepth;
+    }
+
+    ts.forEachChild(node, (child) => visit(child, nextDepth));
+  };
+
+  visit(sourceFile, 0);
+
+  return {
+    functions,
+    conditionals,
+    maxNesting,
+    lines: countLines(source),
+    functionMetrics,
+  };
+}
+
+export const typescriptAnalyzer: LanguageAnalyzer = {
+  id: "typescript",
+  matches: (filePath) => {
+    const lower = filePath.toLowerCase();
+    if (lower.endsWith(".d.ts")) {
+      return false;
+    }
+    return Object.keys(SCRIPT_KIND_MAP).some((ext) => lower.endsWith(ext));
+  },
+  analyze: analyzeSource,
+};
@@ -1,3 +1,5 @@
+import { globToRegExp } from "../lib/glob.js";
+
 export type CommitClassification =
   | "feat"
   | "fix"
@@ -12,6 +14,110 @@ export type CommitClassification =
   | "chore"
   | "unknown";
 
+export const COMMIT_CLASSIFICATIONS: CommitClassification[] = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "build",
+  "ci",
+  "revert",
+  "chore",
+  "unknown",
+];
+
+/**
+ * SQL expression mapping a `commits` row to its label, folding legacy labels
+ * and classifying `unknown` rows by their conventional-commit prefix.
+ */
+export const COMMIT_CLASSIFICATION_SQL = `CASE
+  WHEN classification = 'bugfix' THEN 'fix'
+  WHEN classification = 'feature' THEN 'feat'
+  WHEN classification = 'maintenance' THEN 'build'
+  WHEN classification <> 'unknown' THEN classification
+  WHEN lower(message) ~ '^(feat|feature)(\\([^)]+\\))?!?:' THEN 'feat'
+  WHEN lower(message) ~ '^(fix|bugfix)(\\([^)]+\\))?!?:' THEN 'fix'
+  WHEN lower(message) ~ '^(docs|doc)(\\([^)]+\\))?!?:' THEN 'docs'
+  WHEN lower(message) ~ '^(style|styles)(\\([^)]+\\))?!?:' THEN 'style'
+  WHEN lower(message) ~ '^(refactor)(\\([^)]+\\))?!?:' THEN 'refactor'
+  WHEN lower(message) ~ '^(perf)(\\([^)]+\\))?!?:' THEN 'perf'
+  WHEN lower(message) ~ '^(test|tests)(\\([^)]+\\))?!?:' THEN 'test'
+  WHEN lower(message) ~ '^(build)(\\([^)]+\\))?!?:' THEN 'build'
+  WHEN lower(message) ~ '^(ci)(\\([^)]+\\))?!?:' THEN 'ci'
+  WHEN lower(message) ~ '^(revert)(\\([^)]+\\))?!?:' THEN 'revert'
+  WHEN lower(message) ~ '^(chore)(\\([^)]+\\))?!?:' THEN 'chore'
+  ELSE 'unknown'
+END`;
+
+export type ClassificationRule = {
+  /** Case-insensitive regular expression tested against the commit subject. */
+  pattern: string;
+  label: CommitClassification;
+  /** Higher priorities are tried first; ties keep their configured order. */
+  priority?: number;
+};
+
+export type PathSignal = {
+  /** Glob tested against each changed path, see `globToRegExp`. */
+  pattern: string;
+  label: CommitClassification;
+};
+
+/**
+ * Per-repository classification settings. The message is classified by the
+ * first match of:
+ * 1. `rules`, by priority;
+ * 2. conventional-commit prefixes (`prefixes` extend/override the built-ins);
+ * 3. `ticketPrefixes`, mapping ticket keys such as `PROJ` in `PROJ-123 ...`;
+ * 4. the built-in keyword rules, unless `useDefaultRules` is false.
+ * Changed paths are labeled by the first matching `pathSignals` entry, then
+ * the built-in path signals unless `useDefaultPathSignals` is false.
+ */
+export type ClassificationConfig = {
+  prefixes: Record<string, CommitClassification>;
+  rules: ClassificationRule[];
+  ticketPrefixes: Record<string, CommitClassification>;
+  useDefaultRules: boolean;
+  pathSignals: PathSignal[];
+  useDefaultPathSignals: boolean;
+};
+
+export const DEFAULT_CLASSIFICATION_CONFIG: ClassificationConfig = {
+  prefixes: {},
+  rules: [],
+  ticketPrefixes: {},
+  useDefaultRules: true,
+  pathSignals: [],
+  useDefaultPathSignals: true,
+};
+
+/**
+ * The winning label, how much it can be trusted (0-1) and the signal that
+ * produced it, e.g. `prefix:fix`, `keyword:bug` or `path:*.md`.
+ */
+export type ClassificationResult = {
+  label: CommitClassification;
+  confidence: number;
+  signal: string | null;
+};
+
+/**
+ * Confidence of each signal. A commit whose paths all carry one label wins
+ * over everything but explicit rules; a path majority only decides commits
+ * whose message says nothing better.
+ */
+const SIGNAL_CONFIDENCE = {
+  rule: 0.95,
+  paths: 0.9,
+  prefix: 0.85,
+  ticket: 0.75,
+  keyword: 0.6,
+  pathMajority: 0.5,
+};
+
 const PREFIX_MAP: Record<string, CommitClassification> = {
   feat: "feat",
   feature: "feat",
@@ -85,7 +191,30 @@ const RULES: Array<{
   },
 ];
 
-const PREFIX_RE = /^(\w+)(?:\([^)]+\))?(?:!)?:/;
+const DEFAULT_PATH_SIGNALS: PathSignal[] = [
+  { pattern: ".github/workflows/", label: "ci" },
+  { pattern: ".circleci/", label: "ci" },
+  { pattern: ".gitlab-ci.yml", label: "ci" },
+  { pattern: "{Jenkinsfile,azure-pipelines.yml,.travis.yml}", label: "ci" },
+  { pattern: "*.{test,spec}.*", label: "test" },
+  { pattern: "{test_*.py,*_test.py,*_test.go}", label: "test" },
+  { pattern: "**/{__tests__,__mocks__,test,tests,spec}/", label: "test" },
+  { pattern: "*.{md,mdx,rst,adoc}", label: "docs" },
+  { pattern: "docs/", label: "docs" },
+  {
+    pattern:
+      "{package-lock.json,yarn.lock,pnpm-lock.yaml,bun.lockb,go.sum,Cargo.lock,poetry.lock}",
+    label: "build",
+  },
+  { pattern: "{Dockerfile,Makefile,*.gradle,pom.xml}", label: "build" },
+  {
+    pattern: "{.editorconfig,.prettierrc*,.eslintrc*,biome.json}",
+    label: "style",
+  },
+];
+
+const PREFIX_RE = /^(\w+)(?:\([^)]+\))?(!)?:/;
+const BREAKING_FOOTER_RE = /^BREAKING[ -]CHANGE:/m;
 
 function escapeRegExp(value: string) {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
@@ -102,26 +231,238 @@ function matchesKeyword(
   return new RegExp(`\\b${escapeRegExp(keyword)}\\b`).test(normalized);
 }
 
-export function classifyCommit(message: string): CommitClassification {
-  const normalized = message.toLowerCase();
-  const prefixMatch = normalized.match(PREFIX_RE);
+// `PROJ-123 ...`, `[PROJ-123] ...` or `PROJ-123: ...`; keys are upper-case.
+const TICKET_RE = /^\[?([A-Z][A-Z0-9]+)-\d+\]?[:\s-]*/;
 
-  if (prefixMatch) {
-    const mapped = PREFIX_MAP[prefixMatch[1]];
-    if (mapped) {
-      return mapped;
+/** Returns the first invalid rule pattern, if any. */
+export function findInvalidRulePattern(
+  config: Partial<ClassificationConfig>,
+): string | null {
+  for (const rule of config.rules ?? []) {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch {
+      return rule.pattern;
     }
   }
+  return null;
+}
 
-  for (const rule of RULES) {
+type LabelMatch = { label: CommitClassification; signal: string };
+
+type CompiledPathSignal = PathSignal & { regex: RegExp };
+
+/** Labels the changed paths; null unless one label covers most of them. */
+function classifyPaths(
+  filePaths: string[],
+  signals: CompiledPathSignal[],
+): (LabelMatch & { share: number }) | null {
+  if (!filePaths.length) {
+    return null;
+  }
+
+  const counts = new Map<CommitClassification, number>();
+  const matches = new Map<CompiledPathSignal, number>();
+  for (const filePath of filePaths) {
+    const signal = signals.find((candidate) => candidate.regex.test(filePath));
+    if (signal) {
+      counts.set(signal.label, (counts.get(signal.label) ?? 0) + 1);
+      matches.set(signal, (matches.get(signal) ?? 0) + 1);
+    }
+  }
+
+  let best: { label: CommitClassification; count: number } | null = null;
+  for (const [label, count] of counts) {
+    if (!best || count > best.count) {
+      best = { label, count };
+    }
+  }
+  const share = best ? best.count / filePaths.length : 0;
+  if (!best || share < 0.5) {
+    return null;
+  }
+
+  // The signal names the pattern that matched most of the winning paths.
+  let pattern = "";
+  let patternCount = 0;
+  for (const [signal, count] of matches) {
+    if (signal.label === best.label && count > patternCount) {
+      pattern = signal.pattern;
+      patternCount = count;
+    }
+  }
+
+  return { label: best.label, signal: `path:${pattern}`, share };
+}
+
+export function createClassifier(
+  input: Partial<ClassificationConfig> | null = null,
+): (message: string, filePaths?: string[]) => ClassificationResult {
+  const config = { ...DEFAULT_CLASSIFICATION_CONFIG, ...input };
+  const prefixes = new Map<string, CommitClassification>(
+    Object.entries(PREFIX_MAP),
+  );
+  for (const [prefix, label] of Object.entries(config.prefixes)) {
+    prefixes.set(prefix.toLowerCase(), label);
+  }
+  const tickets = new Map(
+    Object.entries(config.ticketPrefixes).map(([key, label]) => [
+      key.toUpperCase(),
+      label,
+    ]),
+  );
+  const rules = config.rules
+    .map((rule, index) => ({
+      label: rule.label,
+      priority: rule.priority ?? 0,
+      index,
+      source: rule.pattern,
+      pattern: new RegExp(rule.pattern, "i"),
+    }))
+    .sort((a, b) => b.priority - a.priority || a.index - b.index);
+  const pathSignals = [
+    ...config.pathSignals,
+    ...(config.useDefaultPathSignals ? DEFAULT_PATH_SIGNALS : []),
+  ].map((signal) => ({ ...signal, regex: globToRegExp(signal.pattern) }));
+
+  const classifyMessage = (
+    message: string,
+  ): (LabelMatch & { confidence: number }) | null => {
+    for (const rule of rules) {
+      if (rule.pattern.test(message)) {
+        return {
+          label: rule.label,
+          signal: `rule:${rule.source}`,
+          confidence: SIGNAL_CONFIDENCE.rule,
+        };
+      }
+    }
+
+    // Ticket keys are stripped so `PROJ-123 fix: ...` still reads as a prefix.
+    const ticket = message.match(TICKET_RE);
+    const normalized = (
+      ticket ? message.slice(ticket[0].length) : message
+    ).toLowerCase();
+    const prefixMatch = normalized.match(PREFIX_RE);
+
+    const mapped = prefixMatch?.[1] ? prefixes.get(prefixMatch[1]) : undefined;
+    if (mapped) {
+      return {
+        label: mapped,
+        signal: `prefix:${prefixMatch?.[1]}`,
+        confidence: SIGNAL_CONFIDENCE.prefix,
+      };
+    }
+
+    const ticketLabel = ticket?.[1] ? tickets.get(ticket[1]) : undefined;
+    if (ticketLabel) {
+      return {
+        label: ticketLabel,
+        signal: `ticket:${ticket?.[1]}`,
+        confidence: SIGNAL_CONFIDENCE.ticket,
+      };
+    }
+
+    if (!config.useDefaultRules) {
+      return null;
+    }
+
+    for (const rule of RULES) {
+      const keyword = rule.keywords.find((candidate) =>
+        matchesKeyword(normalized, candidate, rule.match),
+      );
+      if (keyword) {
+        return {
+          label: rule.label,
+          signal: `keyword:${keyword}`,
+          confidence: SIGNAL_CONFIDENCE.keyword,
+        };
+      }
+    }
+
+    return null;
+  };
+
+  return (message, filePaths = []) => {
+    const fromMessage = classifyMessage(message);
+    const fromPaths = classifyPaths(filePaths, pathSignals);
+    const pathMatch = fromPaths
+      ? {
+          ...fromPaths,
+          confidence:
+            fromPaths.share === 1
+              ? SIGNAL_CONFIDENCE.paths
+              : SIGNAL_CONFIDENCE.pathMajority * fromPaths.share,
+        }
+      : null;
+
+    const [winner, other] = [fromMessage, pathMatch]
+      .filter((match) => match !== null)
+      .sort((a, b) => b.confidence - a.confidence);
+    if (!winner) {
+      return { label: "unknown", confidence: 0, signal: null };
+    }
+
+    // Agreeing signals reinforce each other.
+    const confidence =
+      other?.label === winner.label
+        ? 1 - (1 - winner.confidence) * (1 - other.confidence)
+        : winner.confidence;
+
+    return {
+      label: winner.label,
+      confidence: Number(confidence.toFixed(3)),
+      signal: winner.signal,
+    };
+  };
+}
+
+const defaultClassifier = createClassifier();
+
+export type SemverBump = "major" | "minor" | "patch" | "none";
+
+const SEMVER_BUMP_RANK: Record<SemverBump, number> = {
+  none: 0,
+  patch: 1,
+  minor: 2,
+  major: 3,
+};
+
+/** `feat!: ...`/`fix(api)!: ...` subjects or a `BREAKING CHANGE:` footer. */
+export function isBreakingChange(message: string, body = ""): boolean {
+  const ticket = message.match(TICKET_RE);
+  const subject = ticket ? message.slice(ticket[0].length) : message;
+  return subject.match(PREFIX_RE)?.[2] === "!" || BREAKING_FOOTER_RE.test(body);
+}
+
+/** The largest of the given bumps (stored as `commits.semver_bump`). */
+export function highestSemverBump(bumps: Iterable<string>): SemverBump {
+  let highest: SemverBump = "none";
+  for (const bump of bumps) {
     if (
-      rule.keywords.some((keyword) =>
-        matchesKeyword(normalized, keyword, rule.match),
-      )
+      bump in SEMVER_BUMP_RANK &&
+      SEMVER_BUMP_RANK[bump as SemverBump] > SEMVER_BUMP_RANK[highest]
     ) {
-      return rule.label;
+      highest = bump as SemverBump;
     }
   }
+  return highest;
+}
+
+/** Classifies a commit from its message and, when known, its changed paths. */
+export function explainClassification(
+  message: string,
+  filePaths: string[] = [],
+  config?: Partial<ClassificationConfig> | null,
+): ClassificationResult {
+  return config
+    ? createClassifier(config)(message, filePaths)
+    : defaultClassifier(message, filePaths);
+}
 
-  return "unknown";
+export function classifyCommit(
+  message: string,
+  config?: Partial<ClassificationConfig> | null,
+): CommitClassification {
+  return explainClassification(message, [], config).label;
 }
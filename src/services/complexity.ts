@@ -1,118 +1,267 @@
-import * as ts from "typescript";
 import { query } from "../lib/db.js";
-import { runCommand } from "./git.js";
+import { findAnalyzer } from "./analyzers/index.js";
+import { listTags, runCommand } from "./git.js";
+import { loadPathFilter } from "./pathFilters.js";
+import { loadPathResolver } from "./renames.js";
+
+type CommitRow = { sha: string; committed_at: Date };
+
+/**
+ * How snapshot commits are picked: every COMPLEXITY_SNAPSHOT_INTERVAL commits,
+ * the last commit of each calendar week/month, or each release tag.
+ */
+export type ComplexitySampling = "by-commit" | "weekly" | "monthly" | "tags";
+
+export const COMPLEXITY_SAMPLINGS: ComplexitySampling[] = [
+  "by-commit",
+  "weekly",
+  "monthly",
+  "tags",
+];
+
+export function parseComplexitySampling(value: unknown): ComplexitySampling {
+  return COMPLEXITY_SAMPLINGS.includes(value as ComplexitySampling)
+    ? (value as ComplexitySampling)
+    : "by-commit";
+}
 
-type CommitRow = { sha: string };
+/** An explicit option wins over COMPLEXITY_SAMPLING. */
+export function resolveComplexitySampling(value?: unknown): ComplexitySampling {
+  return parseComplexitySampling(value ?? process.env.COMPLEXITY_SAMPLING);
+}
+
+type SnapshotPoint = {
+  sha: string;
+  label: string;
+};
 
 type SnapshotInsert = {
   repositoryId: string;
   commitSha: string;
+  samplingStrategy: ComplexitySampling;
+  bucketLabel: string;
   filePath: string;
+  canonicalPath: string;
+  analyzer: string;
   functions: number;
   conditionals: number;
   maxNesting: number;
   lines: number;
 };
 
-const SCRIPT_KIND_MAP: Record<string, ts.ScriptKind> = {
-  ".js": ts.ScriptKind.JS,
-  ".jsx": ts.ScriptKind.JSX,
-  ".ts": ts.ScriptKind.TS,
-  ".tsx": ts.ScriptKind.TSX,
+type FunctionInsert = {
+  repositoryId: string;
+  commitSha: string;
+  filePath: string;
+  canonicalPath: string;
+  name: string;
+  startLine: number;
+  endLine: number;
+  parameters: number;
+  cyclomatic: number;
+  cognitive: number;
 };
 
-function getScriptKind(filePath: string): ts.ScriptKind {
-  const ext = filePath.slice(filePath.lastIndexOf(".")).toLowerCase();
-  return SCRIPT_KIND_MAP[ext] ?? ts.ScriptKind.TS;
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
 }
 
-function isFunctionNode(node: ts.Node): boolean {
-  return (
-    ts.isFunctionDeclaration(node) ||
-    ts.isFunctionExpression(node) ||
-    ts.isArrowFunction(node) ||
-    ts.isMethodDeclaration(node) ||
-    ts.isConstructorDeclaration(node) ||
-    ts.isGetAccessor(node) ||
-    ts.isSetAccessor(node)
-  );
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
 }
 
-function isConditionalNode(node: ts.Node): boolean {
-  return (
-    ts.isIfStatement(node) ||
-    ts.isConditionalExpression(node) ||
-    ts.isSwitchStatement(node)
-  );
+async function insertSnapshots(inserts: SnapshotInsert[]) {
+  const chunks = chunkArray(inserts, 300);
+  for (const chunk of chunks) {
+    const values: string[] = [];
+    const params: Array<string | number> = [];
+
+    chunk.forEach((row, index) => {
+      const base = index * 11;
+      values.push(
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}, $${base + 11})`,
+      );
+      params.push(
+        row.repositoryId,
+        row.commitSha,
+        row.samplingStrategy,
+        row.bucketLabel,
+        row.filePath,
+        row.canonicalPath,
+        row.analyzer,
+        row.functions,
+        row.conditionals,
+        row.maxNesting,
+        row.lines,
+      );
+    });
+
+    await query(
+      `INSERT INTO complexity_snapshots (
+          repository_id,
+          commit_sha,
+          sampling_strategy,
+          bucket_label,
+          file_path,
+          canonical_path,
+          analyzer,
+          functions,
+          conditionals,
+          max_nesting,
+          lines
+       )
+       VALUES ${values.join(",")}`,
+      params,
+    );
+  }
 }
 
-function isNestingNode(node: ts.Node): boolean {
-  return (
-    ts.isIfStatement(node) ||
-    ts.isForStatement(node) ||
-    ts.isForInStatement(node) ||
-    ts.isForOfStatement(node) ||
-    ts.isWhileStatement(node) ||
-    ts.isDoStatement(node) ||
-    ts.isSwitchStatement(node) ||
-    ts.isTryStatement(node) ||
-    ts.isCatchClause(node)
-  );
+async function insertFunctionComplexity(inserts: FunctionInsert[]) {
+  const chunks = chunkArray(inserts, 300);
+  for (const chunk of chunks) {
+    const values: string[] = [];
+    const params: Array<string | number> = [];
+
+    chunk.forEach((row, index) => {
+      const base = index * 10;
+      values.push(
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10})`,
+      );
+      params.push(
+        row.repositoryId,
+        row.commitSha,
+        row.filePath,
+        row.canonicalPath,
+        row.name,
+        row.startLine,
+        row.endLine,
+        row.parameters,
+        row.cyclomatic,
+        row.cognitive,
+      );
+    });
+
+    await query(
+      `INSERT INTO function_complexity (
+          repository_id,
+          commit_sha,
+          file_path,
+          canonical_path,
+          function_name,
+          start_line,
+          end_line,
+          parameters,
+          cyclomatic,
+          cognitive
+       )
+       VALUES ${values.join(",")}`,
+      params,
+    );
+  }
+}
+
+function sampleByCommit(
+  commits: CommitRow[],
+  snapshotInterval: number,
+): SnapshotPoint[] {
+  const points: SnapshotPoint[] = [];
+  for (let i = 0; i < commits.length; i += snapshotInterval) {
+    const commit = commits[i];
+    if (commit) points.push({ sha: commit.sha, label: `#${i + 1}` });
+  }
+
+  const last = commits[commits.length - 1];
+  if (last && points[points.length - 1]?.sha !== last.sha) {
+    points.push({ sha: last.sha, label: `#${commits.length}` });
+  }
+  return points;
 }
 
-function analyzeSource(source: string, filePath: string) {
-  const scriptKind = getScriptKind(filePath);
-  const sourceFile = ts.createSourceFile(
-    filePath,
-    source,
-    ts.ScriptTarget.Latest,
-    true,
-    scriptKind,
+function weekLabel(date: Date): string {
+  const monday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
   );
+  monday.setUTCDate(monday.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
 
-  let functions = 0;
-  let conditionals = 0;
-  let maxNesting = 0;
+function monthLabel(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
 
-  const visit = (node: ts.Node, depth: number) => {
-    if (isFunctionNode(node)) {
-      functions += 1;
-    }
-    if (isConditionalNode(node)) {
-      conditionals += 1;
+/** The last commit of each calendar bucket, labelled with the bucket. */
+function sampleByCalendar(
+  commits: CommitRow[],
+  bucketOf: (date: Date) => string,
+): SnapshotPoint[] {
+  const points: SnapshotPoint[] = [];
+  for (const commit of commits) {
+    const label = bucketOf(new Date(commit.committed_at));
+    const previous = points[points.length - 1];
+    if (previous?.label === label) {
+      previous.sha = commit.sha;
+    } else {
+      points.push({ sha: commit.sha, label });
     }
+  }
+  return points;
+}
 
-    const nextDepth = isNestingNode(node) ? depth + 1 : depth;
-    if (nextDepth > maxNesting) {
-      maxNesting = nextDepth;
+/**
+ * One point per release tag that is part of the analyzed history. Commits
+ * after the newest tag are covered by a trailing `HEAD` point.
+ */
+async function sampleByTags(
+  commits: CommitRow[],
+  repoPath: string,
+): Promise<SnapshotPoint[]> {
+  const order = new Map(commits.map((commit, index) => [commit.sha, index]));
+  const tagged = (await listTags(repoPath))
+    .filter((tag) => order.has(tag.sha))
+    .sort((a, b) => (order.get(a.sha) ?? 0) - (order.get(b.sha) ?? 0));
+
+  const points: SnapshotPoint[] = [];
+  for (const tag of tagged) {
+    // Several tags on one commit share a single snapshot.
+    if (points[points.length - 1]?.sha !== tag.sha) {
+      points.push({ sha: tag.sha, label: tag.name });
     }
+  }
 
-    ts.forEachChild(node, (child) => visit(child, nextDepth));
-  };
-
-  visit(sourceFile, 0);
-
-  const lines = source ? source.split(/\r?\n/).length : 0;
-
-  return { functions, conditionals, maxNesting, lines };
+  const last = commits[commits.length - 1];
+  if (last && points[points.length - 1]?.sha !== last.sha) {
+    points.push({ sha: last.sha, label: "HEAD" });
+  }
+  return points;
 }
 
-function chunkArray<T>(items: T[], size: number): T[][] {
-  const chunks: T[][] = [];
-  for (let i = 0; i < items.length; i += size) {
-    chunks.push(items.slice(i, i + size));
+function thinPoints(points: SnapshotPoint[], maxSnapshots: number) {
+  if (maxSnapshots <= 0 || points.length <= maxSnapshots) {
+    return points;
   }
-  return chunks;
-}
 
-function parseNumberEnv(value: string | undefined, fallback: number): number {
-  const parsed = Number.parseInt(value ?? "", 10);
-  return Number.isNaN(parsed) ? fallback : parsed;
+  const step = Math.ceil(points.length / maxSnapshots);
+  const reduced: SnapshotPoint[] = [];
+  for (let i = 0; i < points.length; i += step) {
+    const point = points[i];
+    if (point) reduced.push(point);
+  }
+  const last = points[points.length - 1];
+  if (last && !reduced.includes(last)) {
+    reduced.push(last);
+  }
+  return reduced;
 }
 
 export async function computeComplexitySnapshots(
   repositoryId: string,
   repoPath: string,
+  sampling: ComplexitySampling = resolveComplexitySampling(),
 ) {
   const snapshotInterval = parseNumberEnv(
     process.env.COMPLEXITY_SNAPSHOT_INTERVAL,
@@ -125,49 +274,51 @@ export async function computeComplexitySnapshots(
     200000,
   );
 
-  if (snapshotInterval <= 0 || maxSnapshots === 0) {
+  if (
+    maxSnapshots === 0 ||
+    (sampling === "by-commit" && snapshotInterval <= 0)
+  ) {
     return;
   }
 
   const commitRows = await query<CommitRow>(
-    "SELECT sha FROM commits WHERE repository_id = $1 ORDER BY committed_at ASC",
+    "SELECT sha, committed_at FROM commits WHERE repository_id = $1 ORDER BY committed_at ASC",
     [repositoryId],
   );
 
-  const allShas = commitRows.rows.map((row) => row.sha);
-  if (!allShas.length) {
+  const commits = commitRows.rows;
+  if (!commits.length) {
     return;
   }
 
-  let snapshotShas: string[] = [];
-  for (let i = 0; i < allShas.length; i += snapshotInterval) {
-    const sha = allShas[i];
-    if (sha) snapshotShas.push(sha);
-  }
-
-  const lastSha = allShas[allShas.length - 1];
-  if (lastSha && !snapshotShas.includes(lastSha)) {
-    snapshotShas.push(lastSha);
-  }
-
-  if (maxSnapshots > 0 && snapshotShas.length > maxSnapshots) {
-    const step = Math.ceil(snapshotShas.length / maxSnapshots);
-    const reduced: string[] = [];
-    for (let i = 0; i < snapshotShas.length; i += step) {
-      const sha = snapshotShas[i];
-      if (sha) reduced.push(sha);
-    }
-    if (lastSha && !reduced.includes(lastSha)) {
-      reduced.push(lastSha);
-    }
-    snapshotShas = reduced;
+  let points: SnapshotPoint[];
+  if (sampling === "weekly") {
+    points = sampleByCalendar(commits, weekLabel);
+  } else if (sampling === "monthly") {
+    points = sampleByCalendar(commits, monthLabel);
+  } else if (sampling === "tags") {
+    points = await sampleByTags(commits, repoPath);
+  } else {
+    points = sampleByCommit(commits, snapshotInterval);
   }
+  points = thinPoints(points, maxSnapshots);
 
   await query("DELETE FROM complexity_snapshots WHERE repository_id = $1", [
     repositoryId,
   ]);
+  await query("DELETE FROM function_complexity WHERE repository_id = $1", [
+    repositoryId,
+  ]);
+
+  const resolver = await loadPathResolver(repositoryId);
+  const pathFilter = await loadPathFilter(repositoryId);
+  // Paths are read as they were at the sampled commit.
+  const commitTimes = new Map(
+    commits.map((commit) => [commit.sha, commit.committed_at]),
+  );
 
-  for (const sha of snapshotShas) {
+  for (const { sha, label } of points) {
+    const committedAt = commitTimes.get(sha) ?? null;
     const tree = await runCommand(
       "git",
       ["-C", repoPath, "ls-tree", "-r", "--name-only", sha],
@@ -177,26 +328,25 @@ export async function computeComplexitySnapshots(
     const files = tree
       .split("\n")
       .map((file) => file.trim())
-      .filter(Boolean)
-      .filter((file) => {
-        const lower = file.toLowerCase();
-        if (lower.endsWith(".d.ts")) {
-          return false;
-        }
-        return (
-          lower.endsWith(".js") ||
-          lower.endsWith(".jsx") ||
-          lower.endsWith(".ts") ||
-          lower.endsWith(".tsx")
-        );
-      });
+      .filter(
+        (file) =>
+          file &&
+          findAnalyzer(file) &&
+          pathFilter.includes(resolver.resolve(file, committedAt)),
+      );
 
     const limitedFiles =
       maxFiles > 0 ? files.slice(0, maxFiles) : files.slice();
 
     const inserts: SnapshotInsert[] = [];
+    const functionInserts: FunctionInsert[] = [];
 
     for (const filePath of limitedFiles) {
+      const analyzer = findAnalyzer(filePath);
+      if (!analyzer) {
+        continue;
+      }
+
       let content = "";
       try {
         content = await runCommand(
@@ -212,52 +362,38 @@ export async function computeComplexitySnapshots(
         continue;
       }
 
-      const metrics = analyzeSource(content, filePath);
+      const metrics = analyzer.analyze(content, filePath);
+      const canonicalPath = resolver.resolve(filePath, committedAt);
       inserts.push({
         repositoryId,
         commitSha: sha,
+        samplingStrategy: sampling,
+        bucketLabel: label,
         filePath,
+        canonicalPath,
+        analyzer: analyzer.id,
         functions: metrics.functions,
         conditionals: metrics.conditionals,
         maxNesting: metrics.maxNesting,
         lines: metrics.lines,
       });
+      for (const fn of metrics.functionMetrics) {
+        functionInserts.push({
+          repositoryId,
+          commitSha: sha,
+          filePath,
+          canonicalPath,
+          name: fn.name,
+          startLine: fn.startLine,
+          endLine: fn.endLine,
+          parameters: fn.parameters,
+          cyclomatic: fn.cyclomatic,
+          cognitive: fn.cognitive,
+        });
+      }
     }
 
-    const chunks = chunkArray(inserts, 300);
-    for (const chunk of chunks) {
-      const values: string[] = [];
-      const params: Array<string | number> = [];
-
-      chunk.forEach((row, index) => {
-        const base = index * 7;
-        values.push(
-          `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`,
-        );
-        params.push(
-          row.repositoryId,
-          row.commitSha,
-          row.filePath,
-          row.functions,
-          row.conditionals,
-          row.maxNesting,
-          row.lines,
-        );
-      });
-
-      await query(
-        `INSERT INTO complexity_snapshots (
-            repository_id,
-            commit_sha,
-            file_path,
-            functions,
-            conditionals,
-            max_nesting,
-            lines
-         )
-         VALUES ${values.join(",")}`,
-        params,
-      );
-    }
+    await insertSnapshots(inserts);
+    await insertFunctionComplexity(functionInserts);
   }
 }
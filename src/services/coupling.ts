@@ -0,0 +1,168 @@
+import path from "node:path";
+import {
+  type FileCouplingInsert,
+  replaceFileCoupling,
+} from "../lib/coupling.js";
+import { query } from "../lib/db.js";
+import { loadPathFilter } from "./pathFilters.js";
+import { loadPathResolver, NEXT_RENAME_JOIN_SQL } from "./renames.js";
+
+type ChangeRow = {
+  commit_id: string;
+  file_path: string;
+  departed_at: string | null;
+};
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+/**
+ * Logical coupling: how often two files change in the same commit. For each
+ * pair sharing at least COUPLING_MIN_SHARED commits:
+ * - `degree`: shared commits / average revisions of the two files;
+ * - `support`: shared commits / all considered commits;
+ * - `confidence`: shared commits / revisions of the source file.
+ * Merges and commits touching more than COUPLING_MAX_FILES_PER_COMMIT files
+ * (mass renames, formatting sweeps) are ignored.
+ */
+export async function computeFileCoupling(repositoryId: string) {
+  const maxFilesPerCommit = parseNumberEnv(
+    process.env.COUPLING_MAX_FILES_PER_COMMIT,
+    30,
+  );
+  const minShared = Math.max(
+    parseNumberEnv(process.env.COUPLING_MIN_SHARED, 3),
+    1,
+  );
+
+  const result = await query<ChangeRow>(
+    `SELECT fc.commit_id, fc.file_path, departure.departed_at
+     FROM file_changes fc
+     JOIN commits c ON c.id = fc.commit_id
+     ${NEXT_RENAME_JOIN_SQL}
+     WHERE c.repository_id = $1
+       AND NOT c.is_merge`,
+    [repositoryId],
+  );
+
+  // Historical paths are folded into the current path, so renames do not
+  // split a file's revisions.
+  const resolver = await loadPathResolver(repositoryId);
+  const pathFilter = await loadPathFilter(repositoryId);
+  const commitFiles = new Map<string, Set<string>>();
+  for (const row of result.rows) {
+    const filePath = resolver.resolve(row.file_path, row.departed_at);
+    if (!pathFilter.includes(filePath)) {
+      continue;
+    }
+    const files = commitFiles.get(row.commit_id) ?? new Set<string>();
+    files.add(filePath);
+    commitFiles.set(row.commit_id, files);
+  }
+
+  const revisions = new Map<string, number>();
+  const shared = new Map<string, number>();
+  let considered = 0;
+
+  for (const files of commitFiles.values()) {
+    if (files.size > maxFilesPerCommit) {
+      continue;
+    }
+    considered += 1;
+
+    const sorted = Array.from(files).sort();
+    for (const [index, fileA] of sorted.entries()) {
+      revisions.set(fileA, (revisions.get(fileA) ?? 0) + 1);
+      for (const fileB of sorted.slice(index + 1)) {
+        const key = `${fileA}\u0000${fileB}`;
+        shared.set(key, (shared.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const rows: FileCouplingInsert[] = [];
+  for (const [key, sharedCommits] of shared) {
+    if (sharedCommits < minShared) {
+      continue;
+    }
+    const [fileA = "", fileB = ""] = key.split("\u0000");
+    const revisionsA = revisions.get(fileA) ?? sharedCommits;
+    const revisionsB = revisions.get(fileB) ?? sharedCommits;
+    const averageRevisions = (revisionsA + revisionsB) / 2;
+
+    rows.push({
+      fileA,
+      fileB,
+      sharedCommits,
+      revisionsA,
+      revisionsB,
+      averageRevisions: Number(averageRevisions.toFixed(2)),
+      degree: round(sharedCommits / averageRevisions),
+      support: round(sharedCommits / considered),
+      confidenceAToB: round(sharedCommits / revisionsA),
+      confidenceBToA: round(sharedCommits / revisionsB),
+    });
+  }
+
+  await replaceFileCoupling(repositoryId, rows);
+}
+
+export type CouplingRow = {
+  file: string;
+  coupled_file: string;
+  shared_commits: number;
+  revisions: number;
+  coupled_revisions: number;
+  average_revisions: number;
+  degree: number;
+  support: number;
+  confidence: number;
+  cross_directory: boolean;
+};
+
+/**
+ * Coupled pairs by degree. With `filePath`, only that file's partners are
+ * listed and `confidence` is the chance that changing it also changes them.
+ */
+export async function listFileCoupling(
+  repositoryId: string,
+  filePath: string | null,
+  limit: number,
+  minDegree = 0,
+): Promise<CouplingRow[]> {
+  const resolved = filePath
+    ? (await loadPathResolver(repositoryId)).resolve(filePath)
+    : null;
+
+  const result = await query<Omit<CouplingRow, "cross_directory">>(
+    `SELECT
+        CASE WHEN file_b = $2 THEN file_b ELSE file_a END AS file,
+        CASE WHEN file_b = $2 THEN file_a ELSE file_b END AS coupled_file,
+        shared_commits,
+        CASE WHEN file_b = $2 THEN revisions_b ELSE revisions_a END AS revisions,
+        CASE WHEN file_b = $2 THEN revisions_a ELSE revisions_b END AS coupled_revisions,
+        average_revisions::float AS average_revisions,
+        degree::float AS degree,
+        support::float AS support,
+        (CASE WHEN file_b = $2 THEN confidence_b_to_a ELSE confidence_a_to_b END)::float AS confidence
+     FROM file_coupling
+     WHERE repository_id = $1
+       AND ($2::text IS NULL OR file_a = $2 OR file_b = $2)
+       AND degree >= $4
+     ORDER BY degree DESC, shared_commits DESC
+     LIMIT $3`,
+    [repositoryId, resolved, limit, minDegree],
+  );
+
+  return result.rows.map((row) => ({
+    ...row,
+    cross_directory:
+      path.posix.dirname(row.file) !== path.posix.dirname(row.coupled_file),
+  }));
+}
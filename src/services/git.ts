@@ -4,6 +4,7 @@ type CommandOptions = {
   cwd?: string;
   env?: Record<string, string>;
   trimOutput?: boolean;
+  input?: string;
 };
 
 export async function runCommand(
@@ -19,6 +20,7 @@ export async function runCommand(
       ...options.env,
       GIT_TERMINAL_PROMPT: "0",
     },
+    stdin: options.input === undefined ? "ignore" : new Blob([options.input]),
     stdout: "pipe",
     stderr: "pipe",
   });
@@ -51,7 +53,14 @@ export async function cloneOrFetchRepo(
       "rev-parse",
       "--is-inside-work-tree",
     ]);
-    await runCommand("git", ["-C", repoPath, "fetch", "origin", "--prune"]);
+    await runCommand("git", [
+      "-C",
+      repoPath,
+      "fetch",
+      "origin",
+      "--prune",
+      "--tags",
+    ]);
   } catch {
     await runCommand("git", ["clone", repoUrl, repoPath]);
   }
@@ -89,35 +98,225 @@ export async function resolveDefaultBranch(repoPath: string): Promise<string> {
   return "main";
 }
 
+export async function resolveCommitSha(
+  repoPath: string,
+  ref: string,
+): Promise<string> {
+  return runCommand("git", [
+    "-C",
+    repoPath,
+    "rev-parse",
+    "--verify",
+    `${ref}^{commit}`,
+  ]);
+}
+
+export async function isAncestorCommit(
+  repoPath: string,
+  ancestor: string,
+  descendant: string,
+): Promise<boolean> {
+  try {
+    await runCommand("git", [
+      "-C",
+      repoPath,
+      "merge-base",
+      "--is-ancestor",
+      ancestor,
+      descendant,
+    ]);
+    return true;
+  } catch {
+    // non-zero exit: not an ancestor, or the old commit is gone entirely
+    return false;
+  }
+}
+
+/** SHAs of `range` (`<tip>` or `<from>..<tip>`), newest first. */
+export async function listRevisions(
+  repoPath: string,
+  range: string,
+): Promise<string[]> {
+  const output = await runCommand("git", ["-C", repoPath, "rev-list", range]);
+  return output.split("\n").filter(Boolean);
+}
+
+export type HistoryMode = "all" | "first-parent" | "no-merges";
+
+export const HISTORY_MODES: HistoryMode[] = [
+  "all",
+  "first-parent",
+  "no-merges",
+];
+
+export function parseHistoryMode(value: unknown): HistoryMode {
+  return HISTORY_MODES.includes(value as HistoryMode)
+    ? (value as HistoryMode)
+    : "all";
+}
+
+export type GitTag = {
+  name: string;
+  /** Commit the tag points at (annotated tags are peeled). */
+  sha: string;
+  /** Tagger date for annotated tags, commit date for lightweight ones. */
+  taggedAt: string;
+  annotated: boolean;
+};
+
+export async function listTags(repoPath: string): Promise<GitTag[]> {
+  const output = await runCommand("git", [
+    "-C",
+    repoPath,
+    "for-each-ref",
+    "--sort=creatordate",
+    "--format=%(refname:short)%1f%(objecttype)%1f%(objectname)%1f%(*objecttype)%1f%(*objectname)%1f%(creatordate:iso-strict)",
+    "refs/tags",
+  ]);
+
+  const tags: GitTag[] = [];
+  for (const line of output.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    const [name, type, sha, peeledType, peeledSha, taggedAt] =
+      line.split("\x1f");
+    const annotated = type === "tag";
+    const commitSha = annotated ? peeledSha : sha;
+    // Tags of trees or blobs have no place in history.
+    if (!name || !commitSha || (annotated ? peeledType : type) !== "commit") {
+      continue;
+    }
+    tags.push({ name, sha: commitSha, taggedAt: taggedAt ?? "", annotated });
+  }
+  return tags;
+}
+
 export type GitCommitLog = {
   sha: string;
+  parentCount: number;
   authorName: string;
   authorEmail: string;
   committedAt: string;
   message: string;
+  body: string;
   fileChanges: Array<{
     filePath: string;
+    previousPath: string | null;
     additions: number;
     deletions: number;
   }>;
 };
 
+const BRACE_RENAME_RE = /^(.*)\{(.*) => (.*)\}(.*)$/;
+
+function joinRenameSegments(prefix: string, middle: string, suffix: string) {
+  return `${prefix}${middle}${suffix}`
+    .replace(/\/{2,}/g, "/")
+    .replace(/^\//, "");
+}
+
+/**
+ * Numstat prints renames as `old => new` or, when the paths share a prefix or
+ * suffix, as `src/{old => new}/file.ts`.
+ */
+export function parseNumstatPath(raw: string): {
+  filePath: string;
+  previousPath: string | null;
+} {
+  const braceMatch = raw.match(BRACE_RENAME_RE);
+  if (braceMatch) {
+    const [, prefix = "", from = "", to = "", suffix = ""] = braceMatch;
+    return {
+      filePath: joinRenameSegments(prefix, to, suffix),
+      previousPath: joinRenameSegments(prefix, from, suffix),
+    };
+  }
+
+  const arrowIndex = raw.indexOf(" => ");
+  if (arrowIndex > 0) {
+    return {
+      filePath: raw.slice(arrowIndex + 4),
+      previousPath: raw.slice(0, arrowIndex),
+    };
+  }
+
+  return { filePath: raw, previousPath: null };
+}
+
+export type GitLogOptions = {
+  maxCommits?: number;
+  historyMode?: HistoryMode;
+  /** Commit whose `.mailmap` is applied to author identities. */
+  mailmapRef?: string;
+};
+
+function mailmapConfig(mailmapRef?: string): string[] {
+  return mailmapRef ? ["-c", `mailmap.blob=${mailmapRef}:.mailmap`] : [];
+}
+
+/**
+ * Maps `Name <email>` identities through the repository's `.mailmap`.
+ * Identities without an email are returned unchanged.
+ */
+export async function resolveMailmapIdentities(
+  repoPath: string,
+  identities: string[],
+  mailmapRef?: string,
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  const candidates = Array.from(new Set(identities)).filter((identity) =>
+    /<[^>]+>\s*$/.test(identity),
+  );
+
+  if (!candidates.length) {
+    return resolved;
+  }
+
+  // Identities go through stdin so a trailer value such as `--foo <a@b>` is
+  // never parsed as an option.
+  const output = await runCommand(
+    "git",
+    ["-C", repoPath, ...mailmapConfig(mailmapRef), "check-mailmap", "--stdin"],
+    { input: `${candidates.join("\n")}\n` },
+  );
+  const lines = output.split("\n");
+  candidates.forEach((identity, index) => {
+    const mapped = lines[index]?.trim();
+    if (mapped) {
+      resolved.set(identity, mapped);
+    }
+  });
+
+  return resolved;
+}
+
 export async function getGitLogWithNumstat(
   repoPath: string,
   ref: string,
-  maxCommits?: number,
+  options: GitLogOptions = {},
 ): Promise<GitCommitLog[]> {
-  const format = "%H%x1f%an%x1f%ae%x1f%ad%x1f%s";
+  const { maxCommits, historyMode = "all", mailmapRef } = options;
+  // %aN/%aE apply .mailmap so aliases collapse into one identity at ingestion.
+  const format = "%x1e%H%x1f%P%x1f%aN%x1f%aE%x1f%ad%x1f%s%x1f%b%x1f";
   const args = [
     "-C",
     repoPath,
+    ...mailmapConfig(mailmapRef),
     "log",
     ref,
     "--date=iso-strict",
     `--pretty=format:${format}`,
     "--numstat",
+    "--find-renames",
   ];
 
+  if (historyMode === "first-parent") {
+    args.push("--first-parent");
+  } else if (historyMode === "no-merges") {
+    args.push("--no-merges");
+  }
+
   if (maxCommits && maxCommits > 0) {
     args.push(`--max-count=${maxCommits}`);
   }
@@ -128,56 +327,192 @@ export async function getGitLogWithNumstat(
   }
 
   const commits: GitCommitLog[] = [];
-  let current: GitCommitLog | null = null;
-  const lines = output.split("\n");
 
-  for (const line of lines) {
-    if (!line.trim()) {
+  // Each record is "\x1e<fields>\x1f<body>\x1f" followed by its numstat lines;
+  // the body may span several lines, so records are split on \x1e first.
+  for (const record of output.split("\x1e")) {
+    if (!record.trim()) {
       continue;
     }
 
-    if (line.includes("\x1f")) {
-      if (current) {
-        commits.push(current);
+    const fields = record.split("\x1f");
+    const [sha, parents, authorName, authorEmail, committedAt, message, body] =
+      fields;
+    const current: GitCommitLog = {
+      sha: sha ?? "",
+      parentCount: parents ? parents.split(" ").filter(Boolean).length : 0,
+      authorName: authorName ?? "",
+      authorEmail: authorEmail ?? "",
+      committedAt: committedAt ?? "",
+      message: message ?? "",
+      body: body?.trim() ?? "",
+      fileChanges: [],
+    };
+
+    const numstat = fields.slice(7).join("\x1f");
+    for (const line of numstat.split("\n")) {
+      if (!line.trim()) {
+        continue;
       }
 
-      const [sha, authorName, authorEmail, committedAt, message] =
-        line.split("\x1f");
-      current = {
-        sha: sha ?? "",
-        authorName: authorName ?? "",
-        authorEmail: authorEmail ?? "",
-        committedAt: committedAt ?? "",
-        message: message ?? "",
-        fileChanges: [],
-      };
+      const parts = line.split("\t");
+      if (parts.length < 3) {
+        continue;
+      }
+
+      const additionsRaw = parts[0] ?? "";
+      const deletionsRaw = parts[1] ?? "";
+      const { filePath, previousPath } = parseNumstatPath(
+        parts.slice(2).join("\t"),
+      );
+
+      const additions =
+        additionsRaw === "-" ? 0 : Number.parseInt(additionsRaw, 10) || 0;
+      const deletions =
+        deletionsRaw === "-" ? 0 : Number.parseInt(deletionsRaw, 10) || 0;
+
+      current.fileChanges.push({
+        filePath,
+        previousPath,
+        additions,
+        deletions,
+      });
+    }
+
+    commits.push(current);
+  }
+
+  return commits;
+}
+
+export type RemovedLine = {
+  /** Line number in the parent's version of the file. */
+  line: number;
+  text: string;
+};
+
+export type RemovedLines = {
+  /** Path in the parent commit. */
+  filePath: string;
+  lines: RemovedLine[];
+};
+
+const HUNK_RE = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Lines each file lost in `sha` compared to its first parent, from a
+ * zero-context diff. Added files and binary changes have no removed lines.
+ */
+export async function getRemovedLines(
+  repoPath: string,
+  sha: string,
+): Promise<RemovedLines[]> {
+  const output = await runCommand(
+    "git",
+    [
+      "-C",
+      repoPath,
+      "-c",
+      "core.quotePath=false",
+      "diff",
+      "-U0",
+      "-M",
+      "--no-color",
+      "--no-ext-diff",
+      `${sha}^`,
+      sha,
+    ],
+    { trimOutput: false },
+  );
+
+  const files: RemovedLines[] = [];
+  let current: RemovedLines | null = null;
+  let inHunk = false;
+  let cursor = 0;
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      current = null;
+      inHunk = false;
       continue;
     }
 
-    if (!current) {
+    if (!inHunk && line.startsWith("--- ")) {
+      const oldPath = line.slice(4).replace(/\t$/, "");
+      current = oldPath.startsWith("a/")
+        ? { filePath: oldPath.slice(2), lines: [] }
+        : null;
+      if (current) {
+        files.push(current);
+      }
       continue;
     }
 
-    const parts = line.split("\t");
-    if (parts.length < 3) {
+    const hunk = line.match(HUNK_RE);
+    if (hunk) {
+      inHunk = true;
+      cursor = Number.parseInt(hunk[1] ?? "0", 10);
       continue;
     }
 
-    const additionsRaw = parts[0] ?? "";
-    const deletionsRaw = parts[1] ?? "";
-    const filePath = parts.slice(2).join("\t");
+    if (inHunk && current && line.startsWith("-")) {
+      current.lines.push({ line: cursor, text: line.slice(1) });
+      cursor += 1;
+    }
+  }
 
-    const additions =
-      additionsRaw === "-" ? 0 : Number.parseInt(additionsRaw, 10) || 0;
-    const deletions =
-      deletionsRaw === "-" ? 0 : Number.parseInt(deletionsRaw, 10) || 0;
+  return files.filter((file) => file.lines.length > 0);
+}
 
-    current.fileChanges.push({ filePath, additions, deletions });
+/**
+ * Blames the given lines of `filePath` at `rev`, ignoring whitespace, and
+ * returns how many of them each commit last touched.
+ */
+export async function blameLines(
+  repoPath: string,
+  rev: string,
+  filePath: string,
+  lineNumbers: number[],
+): Promise<Map<string, number>> {
+  // Consecutive lines are collapsed into one `-L start,end` range.
+  const sorted = [...new Set(lineNumbers)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let index = 0;
+  while (index < sorted.length) {
+    const start = sorted[index] ?? 0;
+    let end = start;
+    while (sorted[index + 1] === end + 1) {
+      end += 1;
+      index += 1;
+    }
+    ranges.push("-L", `${start},${end}`);
+    index += 1;
   }
 
-  if (current) {
-    commits.push(current);
+  const counts = new Map<string, number>();
+  if (!ranges.length) {
+    return counts;
   }
 
-  return commits;
+  const output = await runCommand("git", [
+    "-C",
+    repoPath,
+    "blame",
+    "--porcelain",
+    "-w",
+    ...ranges,
+    rev,
+    "--",
+    filePath,
+  ]);
+
+  // Every blamed line starts with "<sha> <orig-line> <final-line>[ <count>]".
+  for (const line of output.split("\n")) {
+    const match = line.match(/^([0-9a-f]{40}) \d+ \d+/);
+    if (match?.[1]) {
+      counts.set(match[1], (counts.get(match[1]) ?? 0) + 1);
+    }
+  }
+
+  return counts;
 }
@@ -1,18 +1,36 @@
 import path from "node:path";
+import { getClassificationConfig } from "../lib/classificationConfigs.js";
+import { applyClassificationOverrides } from "../lib/classificationOverrides.js";
 import {
   type CommitInsert,
+  type CommitTrailerInsert,
+  deleteCommitsNotIn,
   insertCommits,
+  insertCommitTrailers,
   insertFileChanges,
 } from "../lib/commits.js";
+import {
+  getIngestionState,
+  saveIngestionState,
+} from "../lib/ingestionState.js";
+import { replaceReleases } from "../lib/releases.js";
+import { type FileRenameInsert, insertFileRenames } from "../lib/renames.js";
 import { upsertRepository } from "../lib/repositories.js";
-import { classifyCommit } from "./classification.js";
+import { createClassifier, isBreakingChange } from "./classification.js";
 import {
   cloneOrFetchRepo,
   ensureWorkdir,
+  type GitCommitLog,
   getGitLogWithNumstat,
+  type HistoryMode,
+  isAncestorCommit,
+  listTags,
+  resolveCommitSha,
   resolveDefaultBranch,
+  resolveMailmapIdentities,
 } from "./git.js";
 import { parseRepoUrl } from "./repoMeta.js";
+import { parseCommitTrailers } from "./trailers.js";
 
 function resolveWorkdir(): string {
   return process.env.WORKDIR || "./.data";
@@ -21,12 +39,37 @@ function resolveWorkdir(): string {
 export type IngestionOptions = {
   branch?: string;
   maxCommits?: number;
+  historyMode?: HistoryMode;
 };
 
+/**
+ * - `full`: no high-water mark yet, the whole branch (up to maxCommits) is walked.
+ * - `incremental`: only `<lastSha>..<head>` is walked and merged into stored history.
+ * - `force-push`: the stored SHA is no longer an ancestor of the branch head.
+ * - `branch-change`: the stored history was walked from another branch.
+ * - `history-mode-change`: the previous walk used a different `historyMode`.
+ * - `range-overflow`: `<lastSha>..<head>` held at least maxCommits commits, so
+ *   an incremental walk would leave a gap behind the newest ones.
+ *
+ * The last four rewalk the branch and prune commits that fell out of history,
+ * so the stored commits stay one contiguous window.
+ */
+export type IngestionMode =
+  | "full"
+  | "incremental"
+  | "force-push"
+  | "branch-change"
+  | "history-mode-change"
+  | "range-overflow";
+
 export type IngestionResult = {
   repositoryId: string;
   repoPath: string;
   defaultBranch: string;
+  historyMode: HistoryMode;
+  mode: IngestionMode;
+  headSha: string;
+  previousSha: string | null;
   commitCount: number;
   fileChangeCount: number;
 };
@@ -62,22 +105,71 @@ export async function ingestRepository(
         ? 5000
         : envMaxCommits;
 
-  const commits = await getGitLogWithNumstat(
-    repoPath,
-    `origin/${defaultBranch}`,
-    maxCommits,
-  );
+  const headSha = await resolveCommitSha(repoPath, `origin/${defaultBranch}`);
+  const state = await getIngestionState(repositoryId);
+  const previousSha = state?.lastSha ?? null;
+
+  const historyMode = options.historyMode ?? "all";
+
+  let mode: IngestionMode = "full";
+  if (state && state.branch !== defaultBranch) {
+    mode = "branch-change";
+  } else if (state && state.historyMode !== historyMode) {
+    mode = "history-mode-change";
+  } else if (previousSha) {
+    mode = (await isAncestorCommit(repoPath, previousSha, headSha))
+      ? "incremental"
+      : "force-push";
+  }
+
+  let commits: GitCommitLog[] = [];
+  if (mode === "incremental" && previousSha !== headSha) {
+    commits = await getGitLogWithNumstat(
+      repoPath,
+      `${previousSha}..${headSha}`,
+      { maxCommits, historyMode, mailmapRef: headSha },
+    );
+    if (commits.length >= maxCommits) {
+      console.warn(
+        `Ingestion of ${defaultBranch}: ${previousSha}..${headSha} reached maxCommits (${maxCommits}); rewalking the branch.`,
+      );
+      mode = "range-overflow";
+    }
+  }
+  if (mode !== "incremental") {
+    commits = await getGitLogWithNumstat(repoPath, headSha, {
+      maxCommits,
+      historyMode,
+      mailmapRef: headSha,
+    });
+  }
+
+  const classificationConfig = await getClassificationConfig(repositoryId);
+  const classifyCommit = createClassifier(classificationConfig?.config);
 
-  const commitRows: CommitInsert[] = commits.map((commit) => ({
-    sha: commit.sha,
-    authorName: commit.authorName,
-    authorEmail: commit.authorEmail,
-    committedAt: commit.committedAt,
-    message: commit.message,
-    classification: classifyCommit(commit.message),
-  }));
+  const commitRows: CommitInsert[] = commits.map((commit) => {
+    const classification = classifyCommit(
+      commit.message,
+      commit.fileChanges.map((change) => change.filePath),
+    );
+    return {
+      sha: commit.sha,
+      authorName: commit.authorName,
+      authorEmail: commit.authorEmail,
+      committedAt: commit.committedAt,
+      message: commit.message,
+      body: commit.body,
+      parentCount: commit.parentCount,
+      classification: classification.label,
+      classificationConfidence: classification.confidence,
+      classificationSignal: classification.signal,
+      breaking: isBreakingChange(commit.message, commit.body),
+    };
+  });
 
   const commitMap = await insertCommits(repositoryId, commitRows);
+  // Manual labels win over the classifier, also for re-inserted commits.
+  await applyClassificationOverrides(repositoryId);
 
   const fileChanges = commits.flatMap((commit) => {
     const commitId = commitMap.get(commit.sha);
@@ -95,10 +187,93 @@ export async function ingestRepository(
 
   await insertFileChanges(fileChanges);
 
+  const trailers: CommitTrailerInsert[] = commits.flatMap((commit) => {
+    const commitId = commitMap.get(commit.sha);
+    if (!commitId) {
+      return [];
+    }
+
+    return parseCommitTrailers(commit.message, commit.body).map((trailer) => ({
+      commitId,
+      key: trailer.key,
+      value: trailer.value,
+    }));
+  });
+
+  // Co-authors bypass %aN/%aE, so run them through .mailmap explicitly. A
+  // failing lookup keeps the identities as written instead of failing ingestion.
+  let coAuthorIdentities = new Map<string, string>();
+  try {
+    coAuthorIdentities = await resolveMailmapIdentities(
+      repoPath,
+      trailers
+        .filter((trailer) => trailer.key === "co-authored-by")
+        .map((trailer) => trailer.value),
+      headSha,
+    );
+  } catch (error) {
+    console.warn(
+      `Ingestion of ${defaultBranch}: co-author .mailmap lookup failed; keeping identities as written.`,
+      error,
+    );
+  }
+  for (const trailer of trailers) {
+    if (trailer.key === "co-authored-by") {
+      trailer.value = coAuthorIdentities.get(trailer.value) ?? trailer.value;
+    }
+  }
+
+  await insertCommitTrailers(trailers);
+
+  const renames: FileRenameInsert[] = commits.flatMap((commit) => {
+    const commitId = commitMap.get(commit.sha);
+    if (!commitId) {
+      return [];
+    }
+
+    return commit.fileChanges.flatMap((change) =>
+      change.previousPath && change.previousPath !== change.filePath
+        ? [
+            {
+              commitId,
+              oldPath: change.previousPath,
+              newPath: change.filePath,
+            },
+          ]
+        : [],
+    );
+  });
+
+  await insertFileRenames(repositoryId, renames);
+
+  if (mode !== "full" && mode !== "incremental") {
+    await deleteCommitsNotIn(
+      repositoryId,
+      commits.map((commit) => commit.sha),
+    );
+  }
+
+  const tags = await listTags(repoPath);
+  await replaceReleases(
+    repositoryId,
+    tags.map((tag) => ({
+      tag: tag.name,
+      commitSha: tag.sha,
+      taggedAt: tag.taggedAt,
+      annotated: tag.annotated,
+    })),
+  );
+
+  await saveIngestionState(repositoryId, defaultBranch, headSha, historyMode);
+
   return {
     repositoryId,
     repoPath,
     defaultBranch,
+    historyMode,
+    mode,
+    headSha,
+    previousSha,
     commitCount: commits.length,
     fileChangeCount: fileChanges.length,
   };
@@ -1,5 +1,8 @@
 import { query } from "../lib/db.js";
 import { type InsightInput, replaceInsights } from "../lib/insights.js";
+import { listFileCoupling } from "./coupling.js";
+import { resolveCoAuthorWeighting } from "./ownership.js";
+import { listDefectFiles } from "./szz.js";
 
 type HotspotRow = { file_path: string; hotspot_score: number };
 type FragilityRow = { file_path: string; fragility_index: number };
@@ -42,6 +45,14 @@ export async function generateInsights(
     process.env.BUS_FACTOR_TOUCH_THRESHOLD,
     10,
   );
+  const couplingThreshold = parseNumberEnv(process.env.COUPLING_THRESHOLD, 0.6);
+  // Bus-factor insights use the author view unless the co-author view is
+  // asked for and computed.
+  const ownershipView =
+    process.env.INSIGHTS_OWNERSHIP_VIEW?.trim() === "coauthor" &&
+    resolveCoAuthorWeighting() !== "none"
+      ? "coauthor"
+      : "author";
 
   const insights: InsightInput[] = [];
 
@@ -95,8 +106,9 @@ export async function generateInsights(
        ON fm.repository_id = fo.repository_id
       AND fm.file_path = fo.file_path
      WHERE fo.repository_id = $1
+       AND fo.attribution = $2
      ORDER BY fo.file_path, fo.contribution_share DESC`,
-    [repositoryId],
+    [repositoryId, ownershipView],
   );
 
   const seenFiles = new Set<string>();
@@ -126,5 +138,43 @@ export async function generateInsights(
     }
   }
 
+  // Pairs in the same directory are expected to change together.
+  const coupling = await listFileCoupling(
+    repositoryId,
+    null,
+    maxPerCategory * 20,
+    couplingThreshold,
+  );
+  for (const row of coupling
+    .filter((pair) => pair.cross_directory)
+    .slice(0, maxPerCategory)) {
+    insights.push({
+      category: "coupling",
+      severity: row.degree >= 0.8 ? "risk" : "warning",
+      message: `Hidden coupling: ${row.file} and ${row.coupled_file} changed together in ${row.shared_commits} commits (degree ${formatPercent(
+        row.degree,
+      )}) across directories.`,
+    });
+  }
+
+  // Files whose code needed several fixes, by share of all analyzed fixes.
+  const defectFiles = await listDefectFiles(repositoryId, maxPerCategory);
+  for (const row of defectFiles) {
+    if (row.fixes < 2) {
+      continue;
+    }
+    const rate =
+      row.defect_inducing_rate === null
+        ? ""
+        : `; ${formatPercent(row.defect_inducing_rate)} of its commits were bug-inducing`;
+    insights.push({
+      category: "defect_origin",
+      severity: row.fix_share >= 0.25 ? "risk" : "warning",
+      message: `Defect origin: ${row.file_path} introduced code changed by ${row.fixes} fix commits (${formatPercent(
+        row.fix_share,
+      )} of analyzed fixes${rate}).`,
+    });
+  }
+
   await replaceInsights(repositoryId, insights, analysisRunId);
 }
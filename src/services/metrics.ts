@@ -1,7 +1,21 @@
 import { query } from "../lib/db.js";
+import { getScoringProfile } from "../lib/scoringProfiles.js";
+import { loadPathFilter } from "./pathFilters.js";
+import {
+  loadPathResolver,
+  NEXT_RENAME_JOIN_SQL,
+  type PathResolver,
+} from "./renames.js";
+import {
+  type ComplexityMetric,
+  createNormalizer,
+  resolveScoringProfile,
+  type ScoringProfile,
+} from "./scoring.js";
 
 type FileMetricRow = {
   file_path: string;
+  departed_at: string | null;
   touches: number;
   churn: number;
   bugfix_touches: number;
@@ -10,6 +24,7 @@ type FileMetricRow = {
 
 type RecentMetricRow = {
   file_path: string;
+  departed_at: string | null;
   recent_touches: number;
   recent_churn: number;
 };
@@ -24,15 +39,55 @@ type FileMetricInput = {
   recentChurn: number;
 };
 
-function normalize(value: number, max: number): number {
-  if (max <= 0) {
-    return 0;
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function laterTimestamp(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+}
+
+function mergeByLineage(
+  rows: FileMetricRow[],
+  resolver: PathResolver,
+): FileMetricRow[] {
+  const merged = new Map<string, FileMetricRow>();
+  for (const row of rows) {
+    const filePath = resolver.resolve(row.file_path, row.departed_at);
+    const existing = merged.get(filePath);
+    if (!existing) {
+      merged.set(filePath, { ...row, file_path: filePath });
+      continue;
+    }
+    existing.touches += row.touches;
+    existing.churn += row.churn;
+    existing.bugfix_touches += row.bugfix_touches;
+    existing.last_touched_at = laterTimestamp(
+      existing.last_touched_at,
+      row.last_touched_at,
+    );
   }
-  return Math.min(value / max, 1);
+  return Array.from(merged.values());
 }
 
-function round(value: number): number {
-  return Number(value.toFixed(4));
+function mergeRecentByLineage(
+  rows: RecentMetricRow[],
+  resolver: PathResolver,
+): Map<string, RecentMetricRow> {
+  const merged = new Map<string, RecentMetricRow>();
+  for (const row of rows) {
+    const filePath = resolver.resolve(row.file_path, row.departed_at);
+    const existing = merged.get(filePath);
+    if (!existing) {
+      merged.set(filePath, { ...row, file_path: filePath });
+      continue;
+    }
+    existing.recent_touches += row.recent_touches;
+    existing.recent_churn += row.recent_churn;
+  }
+  return merged;
 }
 
 function chunkArray<T>(items: T[], size: number): T[][] {
@@ -43,64 +98,146 @@ function chunkArray<T>(items: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * Per-file complexity at the latest complexity snapshot, keyed by current
+ * path: summed cyclomatic complexity of its functions, or its line count.
+ */
+async function loadLatestComplexity(
+  repositoryId: string,
+  metric: ComplexityMetric,
+  resolver: PathResolver,
+): Promise<Map<string, number>> {
+  const result = await query<{ file_path: string; complexity: number }>(
+    `WITH latest AS (
+        SELECT cs.commit_sha
+        FROM complexity_snapshots cs
+        JOIN commits c ON c.repository_id = cs.repository_id AND c.sha = cs.commit_sha
+        WHERE cs.repository_id = $1
+        ORDER BY c.committed_at DESC
+        LIMIT 1
+     )
+     SELECT
+        COALESCE(cs.canonical_path, cs.file_path) AS file_path,
+        CASE
+          WHEN $2 = 'lines' THEN cs.lines
+          ELSE COALESCE((
+            SELECT SUM(fn.cyclomatic)
+            FROM function_complexity fn
+            WHERE fn.repository_id = cs.repository_id
+              AND fn.commit_sha = cs.commit_sha
+              AND fn.file_path = cs.file_path
+          ), 0)
+        END::int AS complexity
+     FROM complexity_snapshots cs
+     JOIN latest l ON l.commit_sha = cs.commit_sha
+     WHERE cs.repository_id = $1`,
+    [repositoryId, metric],
+  );
+
+  const complexity = new Map<string, number>();
+  for (const row of result.rows) {
+    const filePath = resolver.resolve(row.file_path);
+    complexity.set(filePath, (complexity.get(filePath) ?? 0) + row.complexity);
+  }
+  return complexity;
+}
+
+/**
+ * Scores every file with the repository's scoring profile and returns the
+ * resolved profile so callers can record it alongside the run.
+ */
 export async function computeFileMetrics(
   repositoryId: string,
   recentWindowDays = 90,
-) {
+): Promise<ScoringProfile> {
+  const stored = await getScoringProfile(repositoryId);
+  const profile = resolveScoringProfile(stored?.profile ?? null);
+
   const allMetrics = await query<FileMetricRow>(
     `SELECT
         fc.file_path,
+        departure.departed_at,
         COUNT(*)::int AS touches,
         SUM(fc.additions + fc.deletions)::int AS churn,
         SUM(CASE WHEN c.classification IN ('fix', 'bugfix') THEN 1 ELSE 0 END)::int AS bugfix_touches,
         MAX(c.committed_at) AS last_touched_at
      FROM file_changes fc
      JOIN commits c ON c.id = fc.commit_id
+     ${NEXT_RENAME_JOIN_SQL}
      WHERE c.repository_id = $1
-     GROUP BY fc.file_path`,
+     GROUP BY fc.file_path, departure.departed_at`,
     [repositoryId],
   );
 
   const recentMetrics = await query<RecentMetricRow>(
     `SELECT
         fc.file_path,
+        departure.departed_at,
         COUNT(*)::int AS recent_touches,
         SUM(fc.additions + fc.deletions)::int AS recent_churn
      FROM file_changes fc
      JOIN commits c ON c.id = fc.commit_id
+     ${NEXT_RENAME_JOIN_SQL}
      WHERE c.repository_id = $1
        AND c.committed_at >= now() - ($2 || ' days')::interval
-     GROUP BY fc.file_path`,
+     GROUP BY fc.file_path, departure.departed_at`,
     [repositoryId, String(recentWindowDays)],
   );
 
-  const recentMap = new Map<string, RecentMetricRow>(
-    recentMetrics.rows.map((row) => [row.file_path, row]),
-  );
+  const resolver = await loadPathResolver(repositoryId);
+  const pathFilter = await loadPathFilter(repositoryId);
+  const recentMap = mergeRecentByLineage(recentMetrics.rows, resolver);
 
-  const inputs: FileMetricInput[] = allMetrics.rows.map((row) => {
-    const recent = recentMap.get(row.file_path);
-    return {
-      filePath: row.file_path,
-      touches: row.touches,
-      churn: row.churn,
-      bugfixTouches: row.bugfix_touches,
-      lastTouchedAt: row.last_touched_at,
-      recentTouches: recent?.recent_touches ?? 0,
-      recentChurn: recent?.recent_churn ?? 0,
-    };
-  });
+  const inputs: FileMetricInput[] = mergeByLineage(allMetrics.rows, resolver)
+    .filter((row) => pathFilter.includes(row.file_path))
+    .map((row) => {
+      const recent = recentMap.get(row.file_path);
+      return {
+        filePath: row.file_path,
+        touches: row.touches,
+        churn: row.churn,
+        bugfixTouches: row.bugfix_touches,
+        lastTouchedAt: row.last_touched_at,
+        recentTouches: recent?.recent_touches ?? 0,
+        recentChurn: recent?.recent_churn ?? 0,
+      };
+    });
+
+  // Paths that were renamed away, pruned by a force-push or excluded by the
+  // repository's path filters no longer get a row.
+  await query(
+    "DELETE FROM file_metrics WHERE repository_id = $1 AND NOT (file_path = ANY($2))",
+    [repositoryId, inputs.map((input) => input.filePath)],
+  );
 
   if (!inputs.length) {
-    return;
+    return profile;
   }
 
-  const maxTouches = Math.max(...inputs.map((item) => item.touches));
-  const maxChurn = Math.max(...inputs.map((item) => item.churn));
-  const maxRecentTouches = Math.max(
-    ...inputs.map((item) => item.recentTouches),
+  const normalizer = (values: number[]) =>
+    createNormalizer(values, profile.normalization);
+  const normalizeTouches = normalizer(inputs.map((item) => item.touches));
+  const normalizeChurn = normalizer(inputs.map((item) => item.churn));
+  const normalizeRecentTouches = normalizer(
+    inputs.map((item) => item.recentTouches),
   );
-  const maxRecentChurn = Math.max(...inputs.map((item) => item.recentChurn));
+  const normalizeRecentChurn = normalizer(
+    inputs.map((item) => item.recentChurn),
+  );
+
+  const complexity = profile.complexityFactor
+    ? await loadLatestComplexity(
+        repositoryId,
+        profile.complexityMetric,
+        resolver,
+      )
+    : null;
+  const normalizeComplexity = normalizer(
+    complexity ? Array.from(complexity.values()) : [],
+  );
+
+  const hotspotWeights = profile.hotspot.touches + profile.hotspot.churn;
+  const fragility = profile.fragility;
 
   const chunks = chunkArray(inputs, 400);
 
@@ -111,13 +248,20 @@ export async function computeFileMetrics(
     chunk.forEach((input, index) => {
       const bugfixRatio =
         input.touches > 0 ? input.bugfixTouches / input.touches : 0;
-      const hotspotScore =
-        0.6 * normalize(input.touches, maxTouches) +
-        0.4 * normalize(input.churn, maxChurn);
+      let hotspotScore =
+        profile.hotspot.touches * normalizeTouches(input.touches) +
+        profile.hotspot.churn * normalizeChurn(input.churn);
+      if (complexity) {
+        // Change frequency (rescaled to 0-1) times how complex the file is.
+        const frequency =
+          hotspotWeights > 0 ? hotspotScore / hotspotWeights : 0;
+        hotspotScore =
+          frequency * normalizeComplexity(complexity.get(input.filePath) ?? 0);
+      }
       const fragilityIndex =
-        0.5 * normalize(input.recentTouches, maxRecentTouches) +
-        0.3 * normalize(input.recentChurn, maxRecentChurn) +
-        0.2 * bugfixRatio;
+        fragility.recentTouches * normalizeRecentTouches(input.recentTouches) +
+        fragility.recentChurn * normalizeRecentChurn(input.recentChurn) +
+        fragility.bugfixRatio * bugfixRatio;
 
       const base = index * 9;
       values.push(
@@ -161,4 +305,6 @@ export async function computeFileMetrics(
       params,
     );
   }
+
+  return profile;
 }
@@ -0,0 +1,160 @@
+import { query } from "../lib/db.js";
+import {
+  pruneFileMetricsHistory,
+  snapshotFileMetrics,
+} from "../lib/fileMetricsHistory.js";
+import { loadPathResolver } from "./renames.js";
+
+export type FileMetricField =
+  | "touches"
+  | "churn"
+  | "hotspot_score"
+  | "fragility_index"
+  | "bugfix_ratio";
+
+export const FILE_METRIC_FIELDS: FileMetricField[] = [
+  "touches",
+  "churn",
+  "hotspot_score",
+  "fragility_index",
+  "bugfix_ratio",
+];
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Versions the run's `file_metrics` under its analysis run id and drops the
+ * runs beyond FILE_METRICS_HISTORY_RUNS (0 keeps every run).
+ */
+export async function recordFileMetricsHistory(
+  repositoryId: string,
+  analysisRunId: string,
+) {
+  const keepRuns = parseNumberEnv(process.env.FILE_METRICS_HISTORY_RUNS, 30);
+
+  await snapshotFileMetrics(repositoryId, analysisRunId);
+  if (keepRuns > 0) {
+    await pruneFileMetricsHistory(repositoryId, keepRuns);
+  }
+}
+
+/**
+ * A file's metrics per recorded run, oldest first, under its current path.
+ * Runs recorded before a rename are found under the earlier paths of its
+ * lineage; a run holding several of them keeps the current path's row.
+ */
+export async function getFileMetricsHistory(
+  repositoryId: string,
+  filePath: string,
+  limit: number,
+) {
+  const resolver = await loadPathResolver(repositoryId);
+  const currentPath = resolver.resolve(filePath);
+
+  const result = await query<{
+    analysis_run_id: string;
+    recorded_at: string;
+    touches: number;
+    churn: number;
+    hotspot_score: number;
+    fragility_index: number;
+    bugfix_ratio: number;
+  }>(
+    `SELECT *
+     FROM (
+       SELECT *
+       FROM (
+         SELECT DISTINCT ON (analysis_run_id)
+            analysis_run_id,
+            recorded_at,
+            touches,
+            churn,
+            hotspot_score::float AS hotspot_score,
+            fragility_index::float AS fragility_index,
+            bugfix_ratio::float AS bugfix_ratio
+         FROM file_metrics_history
+         WHERE repository_id = $1
+           AND file_path = ANY($2)
+         ORDER BY analysis_run_id, (file_path = $3) DESC
+       ) per_run
+       ORDER BY recorded_at DESC
+       LIMIT $4
+     ) recent
+     ORDER BY recorded_at ASC`,
+    [repositoryId, resolver.lineage(currentPath), currentPath, limit],
+  );
+
+  return { file_path: currentPath, runs: result.rows };
+}
+
+/**
+ * Files whose `metric` moved the most between the two most recently recorded
+ * runs. Files present in only one of them count as 0 in the other.
+ */
+export async function listFileMetricMovers(
+  repositoryId: string,
+  metric: FileMetricField,
+  limit: number,
+) {
+  const runs = await query<{ analysis_run_id: string; recorded_at: string }>(
+    `SELECT analysis_run_id, MAX(recorded_at) AS recorded_at
+     FROM file_metrics_history
+     WHERE repository_id = $1
+     GROUP BY analysis_run_id
+     ORDER BY MAX(recorded_at) DESC
+     LIMIT 2`,
+    [repositoryId],
+  );
+
+  const [current, previous] = runs.rows;
+  if (!current || !previous) {
+    return {
+      metric,
+      current_run: current ?? null,
+      previous_run: null,
+      movers: [],
+    };
+  }
+
+  // `metric` is one of FILE_METRIC_FIELDS, never user input.
+  const result = await query<{
+    file_path: string;
+    previous: number | null;
+    current: number | null;
+    delta: number;
+  }>(
+    `SELECT
+        COALESCE(cur.file_path, prev.file_path) AS file_path,
+        prev.${metric}::float AS previous,
+        cur.${metric}::float AS current,
+        (COALESCE(cur.${metric}, 0) - COALESCE(prev.${metric}, 0))::float AS delta
+     FROM (
+       SELECT file_path, ${metric}
+       FROM file_metrics_history
+       WHERE analysis_run_id = $1
+     ) cur
+     FULL OUTER JOIN (
+       SELECT file_path, ${metric}
+       FROM file_metrics_history
+       WHERE analysis_run_id = $2
+     ) prev ON prev.file_path = cur.file_path
+     WHERE COALESCE(cur.${metric}, 0) <> COALESCE(prev.${metric}, 0)
+     ORDER BY ABS(COALESCE(cur.${metric}, 0) - COALESCE(prev.${metric}, 0)) DESC,
+        file_path
+     LIMIT $3`,
+    [current.analysis_run_id, previous.analysis_run_id, limit],
+  );
+
+  return {
+    metric,
+    current_run: current,
+    previous_run: previous,
+    movers: result.rows.map((row) => ({
+      ...row,
+      direction: row.delta > 0 ? "up" : "down",
+    })),
+  };
+}
@@ -1,14 +1,24 @@
-import { upsertContributors } from "../lib/contributors.js";
+import {
+  type ContributorInput,
+  loadContributorAliases,
+  upsertContributors,
+} from "../lib/contributors.js";
 import { query } from "../lib/db.js";
 import {
   type FileOwnershipInsert,
+  type OwnershipAttribution,
   upsertFileOwnership,
 } from "../lib/ownership.js";
+import { loadPathFilter } from "./pathFilters.js";
+import { loadPathResolver, NEXT_RENAME_JOIN_SQL } from "./renames.js";
+import { parseIdentity } from "./trailers.js";
 
 type OwnershipRow = {
   file_path: string;
+  departed_at: string | null;
   author_name: string | null;
   author_email: string | null;
+  co_authors: string[];
   touches: number;
   churn: number;
 };
@@ -18,22 +28,116 @@ type ContributorKey = {
   email: string | null;
 };
 
+type OwnershipTotals = {
+  filePath: string;
+  contributor: ContributorKey;
+  touches: number;
+  credit: number;
+  churn: number;
+};
+
+/**
+ * How a touch is split between a commit's author and its `Co-authored-by`
+ * trailers in the co-author view:
+ * - `none`: the co-author view is not computed.
+ * - `equal`: every participant receives the same share.
+ * - `author-weighted`: the author keeps OWNERSHIP_AUTHOR_WEIGHT, co-authors
+ *   split the remainder.
+ */
+export type CoAuthorWeighting = "none" | "equal" | "author-weighted";
+
+export function resolveCoAuthorWeighting(): CoAuthorWeighting {
+  const value = process.env.OWNERSHIP_COAUTHOR_WEIGHTING?.trim();
+  return value === "none" || value === "author-weighted" ? value : "equal";
+}
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
 function contributorKey(name: string, email: string | null): string {
   return `${name}|${email ?? ""}`;
 }
 
+function normalizeContributor(
+  name: string | null,
+  email: string | null,
+  aliases: Map<string, ContributorInput>,
+): ContributorKey {
+  const normalized = {
+    name: name?.trim() || "Unknown",
+    email: email?.trim() || null,
+  };
+  return (
+    aliases.get(contributorKey(normalized.name, normalized.email)) ?? normalized
+  );
+}
+
+function participantWeights(
+  coAuthorCount: number,
+  weighting: CoAuthorWeighting,
+  authorWeight: number,
+): { author: number; coAuthor: number } {
+  if (coAuthorCount === 0) {
+    return { author: 1, coAuthor: 0 };
+  }
+  if (weighting === "author-weighted") {
+    return {
+      author: authorWeight,
+      coAuthor: (1 - authorWeight) / coAuthorCount,
+    };
+  }
+  const share = 1 / (coAuthorCount + 1);
+  return { author: share, coAuthor: share };
+}
+
+function addTotals(
+  totals: Map<string, OwnershipTotals>,
+  filePath: string,
+  contributor: ContributorKey,
+  touches: number,
+  weight: number,
+  churn: number,
+) {
+  const key = `${filePath}|${contributorKey(contributor.name, contributor.email)}`;
+  const entry = totals.get(key) ?? {
+    filePath,
+    contributor,
+    touches: 0,
+    credit: 0,
+    churn: 0,
+  };
+  entry.touches += touches;
+  entry.credit += touches * weight;
+  entry.churn += churn * weight;
+  totals.set(key, entry);
+}
+
 export async function computeOwnership(repositoryId: string) {
   const result = await query<OwnershipRow>(
-    `SELECT
+    `WITH co_authors AS (
+        SELECT t.commit_id, array_agg(t.value ORDER BY t.value) AS co_authors
+        FROM commit_trailers t
+        JOIN commits c ON c.id = t.commit_id
+        WHERE c.repository_id = $1
+          AND t.key = 'co-authored-by'
+        GROUP BY t.commit_id
+     )
+     SELECT
         fc.file_path,
+        departure.departed_at,
         c.author_name,
         c.author_email,
+        COALESCE(ca.co_authors, '{}') AS co_authors,
         COUNT(*)::int AS touches,
         SUM(fc.additions + fc.deletions)::int AS churn
      FROM file_changes fc
      JOIN commits c ON c.id = fc.commit_id
+     LEFT JOIN co_authors ca ON ca.commit_id = c.id
+     ${NEXT_RENAME_JOIN_SQL}
      WHERE c.repository_id = $1
-     GROUP BY fc.file_path, c.author_name, c.author_email`,
+     GROUP BY fc.file_path, departure.departed_at, c.author_name, c.author_email, ca.co_authors`,
     [repositoryId],
   );
 
@@ -41,14 +145,86 @@ export async function computeOwnership(repositoryId: string) {
     return;
   }
 
+  const weighting = resolveCoAuthorWeighting();
+  const authorWeight = Math.min(
+    Math.max(parseNumberEnv(process.env.OWNERSHIP_AUTHOR_WEIGHT, 0.5), 0),
+    1,
+  );
+
+  // Every historical path of a file is folded into its current path before
+  // computing shares, so ownership survives renames and moves.
+  const resolver = await loadPathResolver(repositoryId);
+  const pathFilter = await loadPathFilter(repositoryId);
+  const aliases = await loadContributorAliases(repositoryId);
+  const views = new Map<OwnershipAttribution, Map<string, OwnershipTotals>>([
+    ["author", new Map()],
+  ]);
+  if (weighting !== "none") {
+    views.set("coauthor", new Map());
+  }
+
+  const fileTouches = new Map<string, number>();
   const contributors: ContributorKey[] = [];
-  const totals = new Map<string, number>();
 
   for (const row of result.rows) {
-    const name = row.author_name?.trim() || "Unknown";
-    const email = row.author_email?.trim() || null;
-    contributors.push({ name, email });
-    totals.set(row.file_path, (totals.get(row.file_path) ?? 0) + row.touches);
+    const filePath = resolver.resolve(row.file_path, row.departed_at);
+    if (!pathFilter.includes(filePath)) {
+      continue;
+    }
+    const author = normalizeContributor(
+      row.author_name,
+      row.author_email,
+      aliases,
+    );
+    contributors.push(author);
+    fileTouches.set(filePath, (fileTouches.get(filePath) ?? 0) + row.touches);
+
+    const authorView = views.get("author");
+    if (authorView) {
+      addTotals(authorView, filePath, author, row.touches, 1, row.churn);
+    }
+
+    const coAuthorView = views.get("coauthor");
+    if (!coAuthorView) {
+      continue;
+    }
+
+    const coAuthors = row.co_authors
+      .map((value) => parseIdentity(value))
+      .map((identity) =>
+        normalizeContributor(identity.name, identity.email, aliases),
+      )
+      .filter(
+        (identity) =>
+          contributorKey(identity.name, identity.email) !==
+            contributorKey(author.name, author.email) &&
+          !(identity.email && identity.email === author.email),
+      );
+    contributors.push(...coAuthors);
+
+    const weights = participantWeights(
+      coAuthors.length,
+      weighting,
+      authorWeight,
+    );
+    addTotals(
+      coAuthorView,
+      filePath,
+      author,
+      row.touches,
+      weights.author,
+      row.churn,
+    );
+    for (const coAuthor of coAuthors) {
+      addTotals(
+        coAuthorView,
+        filePath,
+        coAuthor,
+        row.touches,
+        weights.coAuthor,
+        row.churn,
+      );
+    }
   }
 
   const contributorMap = await upsertContributors(repositoryId, contributors);
@@ -57,24 +233,31 @@ export async function computeOwnership(repositoryId: string) {
     repositoryId,
   ]);
 
-  const ownershipRows: FileOwnershipInsert[] = result.rows.map((row) => {
-    const name = row.author_name?.trim() || "Unknown";
-    const email = row.author_email?.trim() || null;
-    const key = contributorKey(name, email);
-    const contributorId = contributorMap.get(key);
-    const totalTouches = totals.get(row.file_path) ?? 0;
-    const share = totalTouches > 0 ? row.touches / totalTouches : 0;
+  const ownershipRows: FileOwnershipInsert[] = [];
+  for (const [attribution, totals] of views) {
+    for (const entry of totals.values()) {
+      const contributorId = contributorMap.get(
+        contributorKey(entry.contributor.name, entry.contributor.email),
+      );
+      if (!contributorId) {
+        continue;
+      }
 
-    return {
-      repositoryId,
-      filePath: row.file_path,
-      contributorId: contributorId ?? "",
-      touches: row.touches,
-      churn: row.churn,
-      contributionShare: Number(share.toFixed(4)),
-    };
-  });
+      const totalTouches = fileTouches.get(entry.filePath) ?? 0;
+      const share = totalTouches > 0 ? entry.credit / totalTouches : 0;
+
+      ownershipRows.push({
+        repositoryId,
+        filePath: entry.filePath,
+        contributorId,
+        attribution,
+        touches: entry.touches,
+        credit: Number(entry.credit.toFixed(4)),
+        churn: Math.round(entry.churn),
+        contributionShare: Number(share.toFixed(4)),
+      });
+    }
+  }
 
-  const filteredRows = ownershipRows.filter((row) => row.contributorId);
-  await upsertFileOwnership(filteredRows);
+  await upsertFileOwnership(ownershipRows);
 }
@@ -0,0 +1,192 @@
+import { globToRegExp } from "../lib/glob.js";
+import {
+  getRepositorySettings,
+  saveGitattributeRules,
+} from "../lib/repositorySettings.js";
+import { runCommand } from "./git.js";
+
+export type PathFilterSettings = {
+  /** When non-empty, only paths matching one of these globs are analyzed. */
+  include: string[];
+  exclude: string[];
+  useDefaultExcludes: boolean;
+  /** Honor `linguist-generated` / `linguist-vendored` in `.gitattributes`. */
+  useGitattributes: boolean;
+};
+
+/** A `.gitattributes` line that sets (or unsets) a linguist exclusion. */
+export type GitattributeRule = {
+  pattern: string;
+  excluded: boolean;
+};
+
+export type PathFilter = {
+  /** Whether metrics, ownership, complexity and quality consider the path. */
+  includes: (filePath: string) => boolean;
+};
+
+export const DEFAULT_PATH_EXCLUDES = [
+  "**/node_modules/**",
+  "**/vendor/**",
+  "**/bower_components/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/out/**",
+  "**/.next/**",
+  "**/coverage/**",
+  "**/__pycache__/**",
+  "**/.venv/**",
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "composer.lock",
+  "poetry.lock",
+  "go.sum",
+  "*.min.{js,css}",
+  "*.map",
+  "*.generated.*",
+  "*.snap",
+];
+
+export const DEFAULT_PATH_FILTER_SETTINGS: PathFilterSettings = {
+  include: [],
+  exclude: [],
+  useDefaultExcludes: true,
+  useGitattributes: true,
+};
+
+const LINGUIST_ATTRIBUTE_RE =
+  /^([-!]?)linguist-(?:generated|vendored)(?:=(\w+))?$/;
+
+/**
+ * Extracts the linguist exclusion rules of a `.gitattributes` file. A rule is
+ * `excluded` when the line sets `linguist-generated` or `linguist-vendored`
+ * and not excluded when it unsets them (`-linguist-vendored`, `=false`).
+ */
+export function parseGitattributes(content: string): GitattributeRule[] {
+  const rules: GitattributeRule[] = [];
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith("[attr]")) {
+      continue;
+    }
+
+    const [pattern = "", ...attributes] = line.split(/\s+/);
+    let excluded: boolean | null = null;
+    for (const attribute of attributes) {
+      const match = attribute.match(LINGUIST_ATTRIBUTE_RE);
+      if (!match) {
+        continue;
+      }
+      const set = !match[1] && (match[2] ?? "true").toLowerCase() !== "false";
+      excluded = (excluded ?? false) || set;
+    }
+
+    if (excluded !== null) {
+      rules.push({ pattern: pattern.replace(/^"|"$/g, ""), excluded });
+    }
+  }
+  return rules;
+}
+
+/** Linguist rules of `.gitattributes` at `rev`; none when it is absent. */
+export async function readGitattributeRules(
+  repoPath: string,
+  rev = "HEAD",
+): Promise<GitattributeRule[]> {
+  try {
+    const content = await runCommand(
+      "git",
+      ["-C", repoPath, "show", `${rev}:.gitattributes`],
+      { trimOutput: false },
+    );
+    return parseGitattributes(content);
+  } catch {
+    return [];
+  }
+}
+
+/** Stores the clone's rules so filters can be built without a checkout. */
+export async function refreshGitattributeRules(
+  repositoryId: string,
+  repoPath: string,
+  rev = "HEAD",
+) {
+  const rules = await readGitattributeRules(repoPath, rev);
+  await saveGitattributeRules(repositoryId, rules);
+  return rules;
+}
+
+export function resolvePathFilterSettings(
+  input: Partial<PathFilterSettings> | null = null,
+): PathFilterSettings {
+  return { ...DEFAULT_PATH_FILTER_SETTINGS, ...input };
+}
+
+/**
+ * Explicit `exclude` globs always win. Otherwise the last matching
+ * `.gitattributes` rule decides, so `-linguist-vendored` can bring back a
+ * path the default excludes would drop. `include` globs restrict the
+ * remaining paths.
+ */
+export function buildPathFilter(
+  settings: PathFilterSettings,
+  gitattributes: GitattributeRule[] = [],
+): PathFilter {
+  const compile = (patterns: string[]) =>
+    patterns.filter((pattern) => pattern.trim()).map(globToRegExp);
+  const include = compile(settings.include);
+  const exclude = compile(settings.exclude);
+  const defaults = settings.useDefaultExcludes
+    ? compile(DEFAULT_PATH_EXCLUDES)
+    : [];
+  const attributes = settings.useGitattributes
+    ? gitattributes.map((rule) => ({
+        matcher: globToRegExp(rule.pattern),
+        excluded: rule.excluded,
+      }))
+    : [];
+
+  const cache = new Map<string, boolean>();
+  const evaluate = (filePath: string) => {
+    if (include.length && !include.some((matcher) => matcher.test(filePath))) {
+      return false;
+    }
+    if (exclude.some((matcher) => matcher.test(filePath))) {
+      return false;
+    }
+    const attribute = attributes.findLast((rule) =>
+      rule.matcher.test(filePath),
+    );
+    if (attribute) {
+      return !attribute.excluded;
+    }
+    return !defaults.some((matcher) => matcher.test(filePath));
+  };
+
+  return {
+    includes: (filePath) => {
+      const cached = cache.get(filePath);
+      if (cached !== undefined) {
+        return cached;
+      }
+      const included = evaluate(filePath);
+      cache.set(filePath, included);
+      return included;
+    },
+  };
+}
+
+export async function loadPathFilter(
+  repositoryId: string,
+): Promise<PathFilter> {
+  const stored = await getRepositorySettings(repositoryId);
+  return buildPathFilter(
+    resolvePathFilterSettings(stored?.settings ?? null),
+    stored?.gitattributes ?? [],
+  );
+}
@@ -1,17 +1,40 @@
+import { createHash } from "node:crypto";
 import { readFile, readdir, stat } from "node:fs/promises";
 import path from "node:path";
 import * as ts from "typescript";
 import { query } from "../lib/db.js";
+import { loadBaselineOccurrences } from "../lib/qualityBaselines.js";
 import {
   cloneOrFetchRepo,
   ensureWorkdir,
+  resolveCommitSha,
   resolveDefaultBranch,
+  parseNumstatPath,
   runCommand,
 } from "./git.js";
+import {
+  loadPathFilter,
+  type PathFilter,
+  refreshGitattributeRules,
+} from "./pathFilters.js";
+import {
+  type ResolvedQualityRule,
+  describeQualityRules,
+  isLoopStatement,
+  loadQualityRules,
+} from "./qualityRules.js";
+import {
+  evaluateQualityGate,
+  loadQualityGateConditions,
+} from "./qualityGates.js";
+import {
+  buildSuppressionMatcher,
+  parseSuppressions,
+} from "./qualitySuppressions.js";
 import { parseRepoUrl } from "./repoMeta.js";
 
-type QualitySeverity = "info" | "warning" | "error";
-type QualityCategory = "bug" | "security" | "code_smell" | "performance";
+export type QualitySeverity = "info" | "warning" | "error";
+export type QualityCategory = "bug" | "security" | "code_smell" | "performance";
 
 export type QualityFinding = {
   file_path: string;
@@ -22,6 +45,26 @@ export type QualityFinding = {
   category: QualityCategory;
   message: string;
   language?: string | null;
+  /** Tool that reported the finding; the built-in scanner when omitted. */
+  tool?: string | null;
+  /** Qualified name of the innermost function around the finding. */
+  enclosing_function?: string | null;
+  /** Stable identity of the finding across runs, matched by baselines. */
+  fingerprint?: string | null;
+  /** Silenced by an `archaeology-ignore-*` comment or a SARIF suppression. */
+  suppressed?: boolean;
+  suppression_reason?: string | null;
+  /** Accepted in the repository's baseline. */
+  baselined?: boolean;
+};
+
+export type QualityRunSource = "scanner" | "sarif";
+
+type NewCodeStats = {
+  baseRunId: string;
+  lines: number | null;
+  findingsCount: number;
+  grade: string | null;
 };
 
 type QualityRunStats = {
@@ -155,11 +198,10 @@ const EXCLUDED_FILE_MATCHERS = [
 ];
 
 const SUPPORTED_EXTENSIONS = new Set([".js", ".jsx", ".ts", ".tsx"]);
-const LARGE_FILE_LINES = 600;
-const LARGE_FUNCTION_LINES = 80;
-const MAX_FILE_BYTES = 100_000; // 100KB max per file
 const MAX_FILES_TO_ANALYZE = 500; // Safety limit
-const TODO_REGEX = /\b(TODO|FIXME|HACK)\b/i;
+
+/** Name the built-in scanner reports its findings under. */
+export const QUALITY_TOOL = "code-archaeology";
 
 function resolveWorkdir(): string {
   return process.env.WORKDIR || "./.data";
@@ -253,6 +295,71 @@ function getLineInfo(source: ts.SourceFile, position: number) {
   return line + 1;
 }
 
+type FunctionScope = {
+  name: string;
+  startLine: number;
+  endLine: number;
+};
+
+function scopeNameOf(node: ts.Node): string | null {
+  const named = node as ts.Node & { name?: ts.Node };
+  if (
+    named.name &&
+    (ts.isIdentifier(named.name) ||
+      ts.isPrivateIdentifier(named.name) ||
+      ts.isStringLiteral(named.name))
+  ) {
+    return named.name.text;
+  }
+  if (ts.isConstructorDeclaration(node)) {
+    return "constructor";
+  }
+  if (
+    (ts.isVariableDeclaration(node.parent) ||
+      ts.isPropertyAssignment(node.parent) ||
+      ts.isPropertyDeclaration(node.parent)) &&
+    ts.isIdentifier(node.parent.name)
+  ) {
+    return node.parent.name.text;
+  }
+  return null;
+}
+
+/**
+ * Every function of a file with its name qualified by the enclosing classes
+ * and functions (`Parser.parse.visit`), in source order, so the last scope
+ * containing a line is the innermost one.
+ */
+function collectFunctionScopes(sourceFile: ts.SourceFile): FunctionScope[] {
+  const scopes: FunctionScope[] = [];
+  const visit = (node: ts.Node, prefix: string) => {
+    let childPrefix = prefix;
+    const isFunction =
+      ts.isFunctionLike(node) && "body" in node && Boolean(node.body);
+    if (isFunction || ts.isClassLike(node)) {
+      const name = scopeNameOf(node) ?? "<anonymous>";
+      childPrefix = prefix ? `${prefix}.${name}` : name;
+    }
+    if (isFunction) {
+      scopes.push({
+        name: childPrefix,
+        startLine: getLineInfo(sourceFile, node.getStart(sourceFile)),
+        endLine: getLineInfo(sourceFile, node.end),
+      });
+    }
+    ts.forEachChild(node, (child) => visit(child, childPrefix));
+  };
+  visit(sourceFile, "");
+  return scopes;
+}
+
+function findEnclosingScope(scopes: FunctionScope[], line: number) {
+  return (
+    scopes.findLast((scope) => scope.startLine <= line && scope.endLine >= line)
+      ?.name ?? null
+  );
+}
+
 function buildFinding(
   filePath: string,
   lineStart: number,
@@ -279,42 +386,11 @@ function analyzeSource(
   relativePath: string,
   content: string,
   language: string,
+  rules: ResolvedQualityRule[],
 ): { findings: QualityFinding[]; lines: number } {
   const findings: QualityFinding[] = [];
   const lines = content.split(/\r?\n/);
 
-  lines.forEach((lineText, index) => {
-    if (TODO_REGEX.test(lineText)) {
-      findings.push(
-        buildFinding(
-          relativePath,
-          index + 1,
-          index + 1,
-          "todo-fixme",
-          "info",
-          "code_smell",
-          "TODO/FIXME markers present.",
-          language,
-        ),
-      );
-    }
-  });
-
-  if (lines.length >= LARGE_FILE_LINES) {
-    findings.push(
-      buildFinding(
-        relativePath,
-        1,
-        lines.length,
-        "large-file",
-        "warning",
-        "code_smell",
-        "File exceeds recommended line count.",
-        language,
-      ),
-    );
-  }
-
   const ext = path.extname(relativePath).toLowerCase();
   const sourceFile = ts.createSourceFile(
     relativePath,
@@ -323,269 +399,165 @@ function analyzeSource(
     true,
     scriptKindForExtension(ext),
   );
-
-  const visit = (node: ts.Node, loopDepth: number) => {
-    if (ts.isFunctionLike(node) && "body" in node && node.body) {
-      const startLine = getLineInfo(sourceFile, node.getStart(sourceFile));
-      const endLine = getLineInfo(sourceFile, node.end);
-      if (endLine - startLine + 1 >= LARGE_FUNCTION_LINES) {
-        findings.push(
-          buildFinding(
-            relativePath,
-            startLine,
-            endLine,
-            "large-function",
-            "warning",
-            "code_smell",
-            "Function exceeds recommended length.",
-            language,
-          ),
-        );
-      }
-    }
-
-    if (ts.isDebuggerStatement(node)) {
-      const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-      findings.push(
-        buildFinding(
+  const suppressions = buildSuppressionMatcher(parseSuppressions(lines));
+  let scopes: FunctionScope[] | null = null;
+
+  // One context per rule so each reports under its own severity and options.
+  const contexts = rules.map((resolved) => ({
+    check: resolved.rule,
+    context: {
+      filePath: relativePath,
+      language,
+      sourceFile,
+      lines,
+      options: resolved.options,
+      lineOf: (node: ts.Node) =>
+        getLineInfo(sourceFile, node.getStart(sourceFile)),
+      report: (
+        lineStart: number,
+        lineEnd?: number | null,
+        message?: string,
+      ) => {
+        const finding = buildFinding(
           relativePath,
-          line,
-          line,
-          "no-debugger",
-          "warning",
-          "code_smell",
-          "Debugger statement left in code.",
+          lineStart,
+          lineEnd === undefined ? lineStart : lineEnd,
+          resolved.rule.id,
+          resolved.severity,
+          resolved.rule.category,
+          message ?? resolved.rule.message,
           language,
-        ),
-      );
-    }
-
-    if (ts.isThrowStatement(node) && node.expression) {
-      if (ts.isStringLiteral(node.expression)) {
-        const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-        findings.push(
-          buildFinding(
-            relativePath,
-            line,
-            line,
-            "throw-string",
-            "warning",
-            "bug",
-            "Throwing raw strings reduces stack trace context.",
-            language,
-          ),
         );
-      }
-    }
-
-    if (ts.isCatchClause(node) && node.block.statements.length === 0) {
-      const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-      findings.push(
-        buildFinding(
-          relativePath,
-          line,
-          line,
-          "empty-catch",
-          "warning",
-          "bug",
-          "Empty catch blocks hide errors.",
-          language,
-        ),
-      );
-    }
+        scopes ??= collectFunctionScopes(sourceFile);
+        finding.enclosing_function = findEnclosingScope(scopes, lineStart);
+        const suppression = suppressions.find(resolved.rule.id, lineStart);
+        findings.push({
+          ...finding,
+          fingerprint: fingerprintFinding(finding, lines[lineStart - 1]),
+          suppressed: Boolean(suppression),
+          suppression_reason: suppression?.reason ?? null,
+        });
+      },
+    },
+  }));
 
-    if (ts.isBinaryExpression(node)) {
-      if (
-        node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsToken ||
-        node.operatorToken.kind === ts.SyntaxKind.ExclamationEqualsToken
-      ) {
-        const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-        findings.push(
-          buildFinding(
-            relativePath,
-            line,
-            line,
-            "no-loose-eq",
-            "warning",
-            "code_smell",
-            "Use strict equality operators.",
-            language,
-          ),
-        );
-      }
-      if (
-        node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsEqualsToken ||
-        node.operatorToken.kind === ts.SyntaxKind.ExclamationEqualsEqualsToken
-      ) {
-        const leftIsNaN =
-          ts.isIdentifier(node.left) && node.left.text === "NaN";
-        const rightIsNaN =
-          ts.isIdentifier(node.right) && node.right.text === "NaN";
-        if (leftIsNaN || rightIsNaN) {
-          const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-          findings.push(
-            buildFinding(
-              relativePath,
-              line,
-              line,
-              "no-nan-compare",
-              "error",
-              "bug",
-              "Comparing to NaN always returns false.",
-              language,
-            ),
-          );
-        }
-      }
+  for (const { check, context } of contexts) {
+    check.checkFile?.(context);
+  }
 
-      if (
-        node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
-        ts.isPropertyAccessExpression(node.left) &&
-        node.left.name.text === "innerHTML"
-      ) {
-        const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-        findings.push(
-          buildFinding(
-            relativePath,
-            line,
-            line,
-            "no-innerhtml",
-            "warning",
-            "security",
-            "Setting innerHTML can introduce XSS.",
-            language,
-          ),
-        );
-      }
+  const nodeChecks = contexts.filter(({ check }) => check.checkNode);
+  const visit = (node: ts.Node, loopDepth: number) => {
+    for (const { check, context } of nodeChecks) {
+      check.checkNode?.(node, context, loopDepth);
     }
 
-    if (node.kind === ts.SyntaxKind.AnyKeyword) {
-      const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-      findings.push(
-        buildFinding(
-          relativePath,
-          line,
-          line,
-          "no-explicit-any",
-          "warning",
-          "code_smell",
-          "Explicit any type weakens type safety.",
-          language,
-        ),
-      );
-    }
+    const childDepth = isLoopStatement(node) ? loopDepth + 1 : loopDepth;
+    ts.forEachChild(node, (child) => visit(child, childDepth));
+  };
 
-    if (ts.isCallExpression(node)) {
-      const expression = node.expression;
-      if (ts.isIdentifier(expression) && expression.text === "eval") {
-        const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-        findings.push(
-          buildFinding(
-            relativePath,
-            line,
-            line,
-            "no-eval",
-            "error",
-            "security",
-            "Avoid eval for security reasons.",
-            language,
-          ),
-        );
-      }
+  if (nodeChecks.length) {
+    visit(sourceFile, 0);
+  }
 
-      if (ts.isPropertyAccessExpression(expression)) {
-        const objectName = ts.isIdentifier(expression.expression)
-          ? expression.expression.text
-          : "";
-        const method = expression.name.text;
-        if (
-          objectName === "console" &&
-          ["log", "debug", "info", "warn", "error"].includes(method)
-        ) {
-          const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-          findings.push(
-            buildFinding(
-              relativePath,
-              line,
-              line,
-              "no-console",
-              "info",
-              "code_smell",
-              "Console output left in production code.",
-              language,
-            ),
-          );
-        }
+  return { findings, lines: lines.length };
+}
 
-        if (["exec", "execSync", "spawn", "spawnSync", "fork"].includes(method)) {
-          const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-          findings.push(
-            buildFinding(
-              relativePath,
-              line,
-              line,
-              "child-process",
-              "warning",
-              "security",
-              "Process execution should validate inputs carefully.",
-              language,
-            ),
-          );
-        }
-      }
+/**
+ * Hashes the tool, rule, path, enclosing function and the whitespace-
+ * normalized text of the finding's first line (its message when there is
+ * none). Line numbers are left out, so a finding keeps its fingerprint when
+ * unrelated edits shift it up or down the file.
+ */
+export function fingerprintFinding(
+  finding: QualityFinding,
+  lineText?: string | null,
+): string {
+  const snippet = lineText?.replace(/\s+/g, " ").trim();
+  return createHash("sha1")
+    .update(
+      [
+        finding.tool ?? QUALITY_TOOL,
+        finding.rule_id,
+        finding.file_path,
+        finding.enclosing_function ?? "",
+        snippet || finding.message,
+      ].join("\0"),
+    )
+    .digest("hex");
+}
 
-      if (ts.isIdentifier(expression) && expression.text === "Function") {
-        const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-        findings.push(
-          buildFinding(
-            relativePath,
-            line,
-            line,
-            "no-function-constructor",
-            "error",
-            "security",
-            "Avoid Function constructor for security reasons.",
-            language,
-          ),
-        );
-      }
-    }
+export type FindingsDiff<T extends QualityFinding> = {
+  added: T[];
+  fixed: T[];
+  unchanged: T[];
+};
 
-    if (
-      ts.isForStatement(node) ||
-      ts.isWhileStatement(node) ||
-      ts.isDoStatement(node) ||
-      ts.isForInStatement(node) ||
-      ts.isForOfStatement(node)
-    ) {
-      if (loopDepth >= 1) {
-        const line = getLineInfo(sourceFile, node.getStart(sourceFile));
-        findings.push(
-          buildFinding(
-            relativePath,
-            line,
-            line,
-            "nested-loop",
-            "warning",
-            "performance",
-            "Nested loops can cause performance hotspots.",
-            language,
-          ),
-        );
-      }
-      ts.forEachChild(node, (child) => visit(child, loopDepth + 1));
-      return;
+/**
+ * Pairs the findings of two runs by fingerprint. Repeated fingerprints are
+ * matched one for one, so a second copy of a known finding still counts as
+ * new.
+ */
+export function diffFindings<T extends QualityFinding>(
+  base: T[],
+  head: T[],
+): FindingsDiff<T> {
+  const remaining = new Map<string, T[]>();
+  for (const finding of base) {
+    const key = finding.fingerprint ?? fingerprintFinding(finding);
+    remaining.set(key, [...(remaining.get(key) ?? []), finding]);
+  }
+
+  const added: T[] = [];
+  const unchanged: T[] = [];
+  for (const finding of head) {
+    const key = finding.fingerprint ?? fingerprintFinding(finding);
+    const matches = remaining.get(key);
+    if (matches?.length) {
+      matches.shift();
+      unchanged.push(finding);
+    } else {
+      added.push(finding);
     }
+  }
 
-    ts.forEachChild(node, (child) => visit(child, loopDepth));
-  };
+  return { added, fixed: Array.from(remaining.values()).flat(), unchanged };
+}
 
-  visit(sourceFile, 0);
+/**
+ * Marks as many unsuppressed copies of each fingerprint as the baseline
+ * accepted, in path and line order, so like `diffFindings` a further copy of
+ * an accepted finding still counts.
+ */
+function markBaselined(
+  findings: QualityFinding[],
+  occurrences: Map<string, number>,
+) {
+  const remaining = new Map(occurrences);
+  const ordered = [...findings].sort(
+    (a, b) =>
+      a.file_path.localeCompare(b.file_path) || a.line_start - b.line_start,
+  );
+  for (const finding of ordered) {
+    const left =
+      finding.fingerprint && !finding.suppressed
+        ? (remaining.get(finding.fingerprint) ?? 0)
+        : 0;
+    finding.baselined = left > 0;
+    if (finding.fingerprint && left > 0) {
+      remaining.set(finding.fingerprint, left - 1);
+    }
+  }
+}
 
-  return { findings, lines: lines.length };
+/** Suppressed and baselined findings do not count toward the grade. */
+export function isGradedFinding(finding: QualityFinding) {
+  return !finding.suppressed && !finding.baselined;
 }
 
-function computeQualityGrade(findings: QualityFinding[], linesAnalyzed: number) {
+export function computeQualityGrade(
+  findings: QualityFinding[],
+  linesAnalyzed: number,
+) {
   const safeLines = Math.max(linesAnalyzed, 1);
   const kloc = safeLines / 1000;
   const bugCount = findings.filter((f) => f.category === "bug").length;
@@ -640,16 +612,150 @@ function buildFileStats(
   return Array.from(stats.values());
 }
 
-async function insertQualityRun(repositoryId: string) {
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function insertQualityRun(
+  repositoryId: string,
+  source: QualityRunSource = "scanner",
+) {
   const result = await query<{ id: string }>(
-    `INSERT INTO quality_runs (repository_id, status, started_at)
-     VALUES ($1, 'running', now())
+    `INSERT INTO quality_runs (repository_id, status, started_at, source)
+     VALUES ($1, 'running', now(), $2)
      RETURNING id`,
-    [repositoryId],
+    [repositoryId, source],
   );
   return result.rows[0]?.id ?? "";
 }
 
+async function recordQualityRunProfile(
+  runId: string,
+  rules: ResolvedQualityRule[],
+) {
+  await query("UPDATE quality_runs SET profile = $2::jsonb WHERE id = $1", [
+    runId,
+    JSON.stringify(describeQualityRules(rules)),
+  ]);
+}
+
+/**
+ * Lines added between two commits in files the scanner would analyze, the
+ * denominator of the new-code grade.
+ */
+export async function countNewCodeLines(
+  repoPath: string,
+  baseSha: string,
+  headSha: string,
+  pathFilter: PathFilter,
+) {
+  const output = await runCommand("git", [
+    "-C",
+    repoPath,
+    "diff",
+    "--numstat",
+    `${baseSha}..${headSha}`,
+  ]);
+
+  let added = 0;
+  for (const line of output.split("\n")) {
+    const [additions = "", , rawPath] = line.split("\t");
+    if (!rawPath || additions === "-") {
+      continue;
+    }
+    const { filePath } = parseNumstatPath(rawPath);
+    if (
+      !SUPPORTED_EXTENSIONS.has(path.extname(filePath).toLowerCase()) ||
+      shouldSkipPath(filePath) ||
+      !pathFilter.includes(filePath)
+    ) {
+      continue;
+    }
+    added += Number.parseInt(additions, 10) || 0;
+  }
+  return added;
+}
+
+/**
+ * Grades the findings a run adds over the previous successful scanner run
+ * against the lines added since that run's commit. SARIF imports are not
+ * bases, so the result does not depend on which tool uploaded last.
+ */
+async function measureNewCode(
+  repositoryId: string,
+  runId: string,
+  repoPath: string,
+  commitSha: string | null,
+  pathFilter: PathFilter,
+  findings: QualityFinding[],
+): Promise<NewCodeStats | null> {
+  const baseResult = await query<{ id: string; commit_sha: string }>(
+    `SELECT id, commit_sha
+     FROM quality_runs
+     WHERE repository_id = $1
+       AND id <> $2
+       AND status = 'succeeded'
+       AND source = 'scanner'
+       AND commit_sha IS NOT NULL
+     ORDER BY completed_at DESC NULLS LAST, created_at DESC
+     LIMIT 1`,
+    [repositoryId, runId],
+  );
+  const base = baseResult.rows[0];
+  if (!base || !commitSha) {
+    return null;
+  }
+
+  const baseFindings = await query<QualityFinding>(
+    `SELECT file_path, line_start, line_end, rule_id, severity, category, message, tool,
+        enclosing_function, fingerprint
+     FROM quality_findings
+     WHERE quality_run_id = $1
+       AND NOT suppressed`,
+    [base.id],
+  );
+  const { added } = diffFindings(
+    baseFindings.rows,
+    findings.filter((finding) => !finding.suppressed),
+  );
+  const graded = added.filter(isGradedFinding);
+  const lines = await countNewCodeLines(
+    repoPath,
+    base.commit_sha,
+    commitSha,
+    pathFilter,
+  ).catch(() => null);
+
+  return {
+    baseRunId: base.id,
+    lines,
+    findingsCount: graded.length,
+    grade: lines ? computeQualityGrade(graded, lines) : null,
+  };
+}
+
+async function recordQualityRunNewCode(runId: string, newCode: NewCodeStats) {
+  await query(
+    `UPDATE quality_runs
+     SET new_code_base_run_id = $2,
+         new_code_lines = $3,
+         new_findings_count = $4,
+         new_code_grade = $5
+     WHERE id = $1`,
+    [
+      runId,
+      newCode.baseRunId,
+      newCode.lines,
+      newCode.findingsCount,
+      newCode.grade,
+    ],
+  );
+}
+
 async function failQualityRun(runId: string, message: string) {
   await query(
     `UPDATE quality_runs
@@ -662,7 +768,8 @@ async function failQualityRun(runId: string, message: string) {
 async function completeQualityRun(
   runId: string,
   stats: QualityRunStats,
-  grade: string,
+  grade: string | null,
+  commitSha: string | null,
 ) {
   await query(
     `UPDATE quality_runs
@@ -671,53 +778,65 @@ async function completeQualityRun(
          files_analyzed = $2,
          lines_analyzed = $3,
          quality_grade = $4,
+         commit_sha = $5,
          error_message = NULL
      WHERE id = $1`,
-    [runId, stats.filesAnalyzed, stats.linesAnalyzed, grade],
+    [runId, stats.filesAnalyzed, stats.linesAnalyzed, grade, commitSha],
   );
 }
 
 async function insertQualityFindings(runId: string, findings: QualityFinding[]) {
-  if (!findings.length) {
-    return;
-  }
-
-  const values: string[] = [];
-  const params: Array<string | number | null> = [];
-
-  findings.forEach((finding, index) => {
-    const base = index * 9;
-    values.push(
-      `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9})`,
-    );
-    params.push(
-      runId,
-      finding.file_path,
-      finding.line_start,
-      finding.line_end,
-      finding.rule_id,
-      finding.severity,
-      finding.category,
-      finding.message,
-      finding.language ?? null,
+  // Imported SARIF logs can carry far more findings than one statement takes.
+  for (const chunk of chunkArray(findings, 500)) {
+    const values: string[] = [];
+    const params: Array<string | number | boolean | null> = [];
+
+    chunk.forEach((finding, index) => {
+      const base = index * 15;
+      values.push(
+        `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}, $${base + 11}, $${base + 12}, $${base + 13}, $${base + 14}, $${base + 15})`,
+      );
+      params.push(
+        runId,
+        finding.file_path,
+        finding.line_start,
+        finding.line_end,
+        finding.rule_id,
+        finding.severity,
+        finding.category,
+        finding.message,
+        finding.language ?? null,
+        finding.tool ?? QUALITY_TOOL,
+        finding.enclosing_function ?? null,
+        finding.fingerprint ?? null,
+        finding.suppressed ?? false,
+        finding.suppression_reason ?? null,
+        finding.baselined ?? false,
+      );
+    });
+
+    await query(
+      `INSERT INTO quality_findings (
+          quality_run_id,
+          file_path,
+          line_start,
+          line_end,
+          rule_id,
+          severity,
+          category,
+          message,
+          language,
+          tool,
+          enclosing_function,
+          fingerprint,
+          suppressed,
+          suppression_reason,
+          baselined
+       )
+       VALUES ${values.join(",")}`,
+      params,
     );
-  });
-
-  await query(
-    `INSERT INTO quality_findings (
-        quality_run_id,
-        file_path,
-        line_start,
-        line_end,
-        rule_id,
-        severity,
-        category,
-        message,
-        language
-     )
-     VALUES ${values.join(",")}`,
-    params,
-  );
+  }
 }
 
 async function insertQualityFileStats(
@@ -766,6 +885,7 @@ async function insertQualityFileStats(
 
 async function executeQualityAnalysis(
   runId: string,
+  repositoryId: string,
   repoPath: string,
   branch?: string | null,
 ) {
@@ -789,7 +909,17 @@ async function executeQualityAnalysis(
       }
     }
 
-    const allFiles = await collectSourceFiles(repoPath);
+    // Recorded on the run so findings can be tied to releases and commits.
+    const commitSha = await resolveCommitSha(repoPath, "HEAD").catch(
+      () => null,
+    );
+
+    // The repository's path filters apply on top of the scanner's own excludes.
+    await refreshGitattributeRules(repositoryId, repoPath, commitSha ?? "HEAD");
+    const pathFilter = await loadPathFilter(repositoryId);
+    const allFiles = (await collectSourceFiles(repoPath)).filter((filePath) =>
+      pathFilter.includes(normalizePath(path.relative(repoPath, filePath))),
+    );
     // Apply safety limit
     const files = allFiles.slice(0, MAX_FILES_TO_ANALYZE);
     if (allFiles.length > MAX_FILES_TO_ANALYZE) {
@@ -797,6 +927,18 @@ async function executeQualityAnalysis(
     }
     console.log(`[Quality] Starting analysis of ${files.length} files...`);
 
+    // The repository's quality profile decides which rules run and how.
+    const rules = await loadQualityRules(repositoryId);
+    await recordQualityRunProfile(runId, rules);
+    const enabledRules = rules.filter((resolved) => resolved.enabled);
+    const sizeRule = rules.find(
+      (resolved) => resolved.rule.id === "large-file-bytes",
+    );
+    const readRule = rules.find(
+      (resolved) => resolved.rule.id === "file-read-failed",
+    );
+    const maxFileBytes = Number(sizeRule?.options.maxBytes ?? 100_000);
+
     const findings: QualityFinding[] = [];
     const fileLines = new Map<string, number>();
     const languages = new Set<string>();
@@ -805,19 +947,21 @@ async function executeQualityAnalysis(
     for (const filePath of files) {
       const relativePath = normalizePath(path.relative(repoPath, filePath));
       const fileStat = await stat(filePath);
-      if (fileStat.size > MAX_FILE_BYTES) {
-        findings.push(
-          buildFinding(
-            relativePath,
-            1,
-            null,
-            "large-file-bytes",
-            "warning",
-            "code_smell",
-            "File exceeds size threshold for analysis.",
-            getLanguageForExtension(path.extname(filePath).toLowerCase()),
-          ),
-        );
+      if (fileStat.size > maxFileBytes) {
+        if (sizeRule?.enabled) {
+          findings.push(
+            buildFinding(
+              relativePath,
+              1,
+              null,
+              sizeRule.rule.id,
+              sizeRule.severity,
+              sizeRule.rule.category,
+              sizeRule.rule.message,
+              getLanguageForExtension(path.extname(filePath).toLowerCase()),
+            ),
+          );
+        }
         continue;
       }
 
@@ -825,18 +969,20 @@ async function executeQualityAnalysis(
       try {
         content = await readFile(filePath, "utf8");
       } catch {
-        findings.push(
-          buildFinding(
-            relativePath,
-            1,
-            null,
-            "file-read-failed",
-            "warning",
-            "code_smell",
-            "File could not be read for analysis.",
-            getLanguageForExtension(path.extname(filePath).toLowerCase()),
-          ),
-        );
+        if (readRule?.enabled) {
+          findings.push(
+            buildFinding(
+              relativePath,
+              1,
+              null,
+              readRule.rule.id,
+              readRule.severity,
+              readRule.rule.category,
+              readRule.rule.message,
+              getLanguageForExtension(path.extname(filePath).toLowerCase()),
+            ),
+          );
+        }
         continue;
       }
       const language = getLanguageForExtension(
@@ -847,17 +993,53 @@ async function executeQualityAnalysis(
         relativePath,
         content,
         language,
+        enabledRules,
       );
       fileLines.set(relativePath, lines);
       linesAnalyzed += lines;
       findings.push(...fileFindings);
     }
 
-    const fileStats = buildFileStats(findings, fileLines);
+    // Findings of unreadable files have no source line to fingerprint.
+    for (const finding of findings) {
+      finding.fingerprint ??= fingerprintFinding(finding);
+    }
+    // Uploaded findings of other tools stay in the stats, grade and gate
+    // until a new upload of that tool replaces them.
+    const previous = await findLatestQualityRun(repositoryId);
+    if (previous) {
+      const carried = await loadOtherToolFindings(previous.id, [QUALITY_TOOL]);
+      findings.push(
+        ...carried.filter((finding) => pathFilter.includes(finding.file_path)),
+      );
+    }
+    markBaselined(findings, await loadBaselineOccurrences(repositoryId));
+
+    const fileStats = buildFileStats(
+      findings.filter((finding) => !finding.suppressed),
+      fileLines,
+    );
     await insertQualityFindings(runId, findings);
     await insertQualityFileStats(runId, fileStats);
 
-    const grade = computeQualityGrade(findings, linesAnalyzed);
+    const grade = computeQualityGrade(
+      findings.filter(isGradedFinding),
+      linesAnalyzed,
+    );
+
+    // New code is measured against the previous successful scanner run.
+    const newCode = await measureNewCode(
+      repositoryId,
+      runId,
+      repoPath,
+      commitSha,
+      pathFilter,
+      findings,
+    );
+    if (newCode) {
+      await recordQualityRunNewCode(runId, newCode);
+    }
+
     await completeQualityRun(
       runId,
       {
@@ -866,7 +1048,9 @@ async function executeQualityAnalysis(
         languagesAnalyzed: Array.from(languages),
       },
       grade,
+      commitSha,
     );
+    const gate = await evaluateQualityRunGate(repositoryId, runId);
 
     return {
       runId,
@@ -875,6 +1059,8 @@ async function executeQualityAnalysis(
       languagesAnalyzed: Array.from(languages),
       findingsCount: findings.length,
       grade,
+      newCodeGrade: newCode?.grade ?? null,
+      gateStatus: gate?.status ?? null,
     };
   } catch (error) {
     await failQualityRun(
@@ -885,6 +1071,36 @@ async function executeQualityAnalysis(
   }
 }
 
+async function findLatestQualityRun(repositoryId: string) {
+  const result = await query<{
+    id: string;
+    files_analyzed: number;
+    lines_analyzed: number;
+    commit_sha: string | null;
+  }>(
+    `SELECT id, files_analyzed, lines_analyzed, commit_sha
+     FROM quality_runs
+     WHERE repository_id = $1 AND status = 'succeeded'
+     ORDER BY completed_at DESC NULLS LAST, created_at DESC
+     LIMIT 1`,
+    [repositoryId],
+  );
+  return result.rows[0] ?? null;
+}
+
+/** Findings of a run reported by tools other than `tools`, to carry over. */
+async function loadOtherToolFindings(runId: string, tools: string[]) {
+  const result = await query<QualityFinding>(
+    `SELECT file_path, line_start, line_end, rule_id, severity, category, message, language, tool,
+        enclosing_function, fingerprint, suppressed, suppression_reason
+     FROM quality_findings
+     WHERE quality_run_id = $1
+       AND NOT (tool = ANY($2))`,
+    [runId, tools],
+  );
+  return result.rows;
+}
+
 async function prepareRepository(
   repoUrl: string,
   branch?: string | null,
@@ -901,6 +1117,286 @@ async function prepareRepository(
   return { repoPath, branch: resolvedBranch };
 }
 
+/**
+ * Stores findings produced elsewhere (a SARIF upload) as a new quality run.
+ * Findings of other tools in the latest successful run are carried over, so
+ * file stats and the grade cover every tool; re-uploading a tool replaces
+ * its previous results. The grade reuses the line count of that run and is
+ * left empty when no run has measured the code yet. `unresolvedCount`
+ * results the caller could not place in the repository count as skipped.
+ */
+export async function importQualityFindings(
+  repositoryId: string,
+  findings: QualityFinding[],
+  options: {
+    tools: string[];
+    commitSha?: string | null;
+    unresolvedCount?: number;
+  },
+) {
+  const pathFilter = await loadPathFilter(repositoryId);
+  const imported = findings.filter((finding) =>
+    pathFilter.includes(finding.file_path),
+  );
+
+  const previous = await findLatestQualityRun(repositoryId);
+
+  // Tools without results still replace their earlier findings.
+  const tools = Array.from(
+    new Set([
+      ...options.tools,
+      ...findings.map((finding) => finding.tool ?? QUALITY_TOOL),
+    ]),
+  );
+  const merged = [...imported];
+  const fileLines = new Map<string, number>();
+  if (previous) {
+    merged.push(...(await loadOtherToolFindings(previous.id, tools)));
+
+    const lines = await query<{ file_path: string; lines_of_code: number }>(
+      `SELECT file_path, lines_of_code
+       FROM quality_file_stats
+       WHERE quality_run_id = $1 AND lines_of_code IS NOT NULL`,
+      [previous.id],
+    );
+    for (const row of lines.rows) {
+      fileLines.set(row.file_path, row.lines_of_code);
+    }
+  }
+
+  const runId = await insertQualityRun(repositoryId, "sarif");
+  if (!runId) {
+    throw new Error("Unable to create quality run.");
+  }
+
+  try {
+    const linesAnalyzed = previous?.lines_analyzed ?? 0;
+    const filesAnalyzed = Math.max(
+      previous?.files_analyzed ?? 0,
+      new Set(merged.map((finding) => finding.file_path)).size,
+    );
+    const languages = Array.from(
+      new Set(
+        merged
+          .map((finding) => finding.language)
+          .filter((language): language is string => Boolean(language)),
+      ),
+    );
+
+    for (const finding of merged) {
+      finding.fingerprint ??= fingerprintFinding(finding);
+    }
+    markBaselined(merged, await loadBaselineOccurrences(repositoryId));
+
+    await insertQualityFindings(runId, merged);
+    await insertQualityFileStats(
+      runId,
+      buildFileStats(
+        merged.filter((finding) => !finding.suppressed),
+        fileLines,
+      ),
+    );
+
+    const grade =
+      linesAnalyzed > 0
+        ? computeQualityGrade(merged.filter(isGradedFinding), linesAnalyzed)
+        : null;
+    await completeQualityRun(
+      runId,
+      { filesAnalyzed, linesAnalyzed, languagesAnalyzed: languages },
+      grade,
+      options.commitSha ?? previous?.commit_sha ?? null,
+    );
+    const gate = await evaluateQualityRunGate(repositoryId, runId);
+
+    return {
+      runId,
+      tools,
+      importedCount: imported.length,
+      skippedCount:
+        findings.length - imported.length + (options.unresolvedCount ?? 0),
+      carriedOverCount: merged.length - imported.length,
+      grade,
+      gateStatus: gate?.status ?? null,
+    };
+  } catch (error) {
+    await failQualityRun(
+      runId,
+      error instanceof Error ? error.message : "Quality import failed.",
+    );
+    throw error;
+  }
+}
+
+/**
+ * Re-matches a run's findings against the repository's current baseline and
+ * recomputes its grade, so accepting or dropping findings shows up without a
+ * new scan.
+ */
+export async function applyQualityBaseline(
+  repositoryId: string,
+  runId: string,
+) {
+  // Same order as `markBaselined`: the first copies of a fingerprint are the
+  // accepted ones.
+  await query(
+    `UPDATE quality_findings f
+     SET baselined = NOT f.suppressed
+       AND COALESCE(ranked.position <= b.occurrences, false)
+     FROM (
+       SELECT id, fingerprint,
+          ROW_NUMBER() OVER (
+            PARTITION BY fingerprint, suppressed
+            ORDER BY file_path, line_start
+          ) AS position
+       FROM quality_findings
+       WHERE quality_run_id = $1
+     ) ranked
+     LEFT JOIN quality_baselines b
+       ON b.repository_id = $2 AND b.fingerprint = ranked.fingerprint
+     WHERE f.id = ranked.id`,
+    [runId, repositoryId],
+  );
+
+  const run = await query<{ lines_analyzed: number }>(
+    `SELECT lines_analyzed
+     FROM quality_runs
+     WHERE id = $1 AND status = 'succeeded'`,
+    [runId],
+  );
+  const linesAnalyzed = run.rows[0]?.lines_analyzed ?? 0;
+  if (linesAnalyzed <= 0) {
+    return null;
+  }
+
+  const graded = await query<QualityFinding>(
+    `SELECT file_path, line_start, line_end, rule_id, severity, category, message
+     FROM quality_findings
+     WHERE quality_run_id = $1
+       AND NOT suppressed
+       AND NOT baselined`,
+    [runId],
+  );
+  const grade = computeQualityGrade(graded.rows, linesAnalyzed);
+  await query("UPDATE quality_runs SET quality_grade = $2 WHERE id = $1", [
+    runId,
+    grade,
+  ]);
+  await evaluateQualityRunGate(repositoryId, runId);
+  return grade;
+}
+
+/**
+ * Evaluates the repository's quality gate on a run and stores its status and
+ * failing conditions. New findings and per-file deltas are measured against
+ * the run's new-code base, else the successful run before it.
+ */
+export async function evaluateQualityRunGate(
+  repositoryId: string,
+  runId: string,
+) {
+  const runResult = await query<{
+    quality_grade: string | null;
+    new_code_grade: string | null;
+    new_code_lines: number | null;
+    new_code_base_run_id: string | null;
+    completed_at: string | null;
+  }>(
+    `SELECT quality_grade, new_code_grade, new_code_lines, new_code_base_run_id, completed_at
+     FROM quality_runs
+     WHERE id = $1`,
+    [runId],
+  );
+  const run = runResult.rows[0];
+  if (!run) {
+    return null;
+  }
+
+  const baseResult = await query<{ id: string }>(
+    `SELECT id
+     FROM quality_runs
+     WHERE repository_id = $1
+       AND id <> $2
+       AND status = 'succeeded'
+       AND (
+         id = $3
+         OR ($3::uuid IS NULL AND (completed_at < $4 OR $4::timestamptz IS NULL))
+       )
+     ORDER BY completed_at DESC NULLS LAST, created_at DESC
+     LIMIT 1`,
+    [repositoryId, runId, run.new_code_base_run_id, run.completed_at],
+  );
+  const baseRunId = baseResult.rows[0]?.id ?? null;
+
+  const loadFindings = async (id: string) => {
+    const result = await query<QualityFinding>(
+      `SELECT file_path, line_start, line_end, rule_id, severity, category, message, tool,
+          enclosing_function, fingerprint, baselined
+       FROM quality_findings
+       WHERE quality_run_id = $1
+         AND NOT suppressed`,
+      [id],
+    );
+    return result.rows;
+  };
+  const findings = await loadFindings(runId);
+  const baseFindings = baseRunId ? await loadFindings(baseRunId) : null;
+
+  const findingDeltas = new Map<string, number>();
+  for (const finding of findings.filter(isGradedFinding)) {
+    findingDeltas.set(
+      finding.file_path,
+      (findingDeltas.get(finding.file_path) ?? 0) + 1,
+    );
+  }
+  for (const finding of (baseFindings ?? []).filter(isGradedFinding)) {
+    findingDeltas.set(
+      finding.file_path,
+      (findingDeltas.get(finding.file_path) ?? 0) - 1,
+    );
+  }
+
+  const conditions = await loadQualityGateConditions(repositoryId);
+  const hotspotScores = new Map<string, number>();
+  if (
+    conditions.some(
+      (condition) => condition.metric === "hotspot_files_gaining_findings",
+    )
+  ) {
+    const hotspots = await query<{ file_path: string; hotspot_score: number }>(
+      `SELECT file_path, hotspot_score::float AS hotspot_score
+       FROM file_metrics
+       WHERE repository_id = $1`,
+      [repositoryId],
+    );
+    for (const row of hotspots.rows) {
+      hotspotScores.set(row.file_path, row.hotspot_score);
+    }
+  }
+
+  const gate = evaluateQualityGate(conditions, {
+    grade: run.quality_grade,
+    newCodeGrade: run.new_code_grade,
+    newCodeLines: run.new_code_lines,
+    findings: findings.filter(isGradedFinding),
+    newFindings: baseFindings
+      ? diffFindings(baseFindings, findings).added.filter(isGradedFinding)
+      : null,
+    findingDeltas: baseFindings ? findingDeltas : new Map(),
+    hotspotScores,
+  });
+  const failures = gate.results.filter((result) => !result.passed);
+
+  await query(
+    `UPDATE quality_runs
+     SET gate_status = $2, gate_failures = $3::jsonb
+     WHERE id = $1`,
+    [runId, gate.status, JSON.stringify(failures)],
+  );
+
+  return { status: gate.status, results: gate.results, failures };
+}
+
 export async function runQualityAnalysis(
   repositoryId: string,
   repoPath: string,
@@ -910,7 +1406,7 @@ export async function runQualityAnalysis(
   if (!runId) {
     throw new Error("Unable to create quality run.");
   }
-  return executeQualityAnalysis(runId, repoPath, branch);
+  return executeQualityAnalysis(runId, repositoryId, repoPath, branch);
 }
 
 export async function startQualityAnalysis(
@@ -926,7 +1422,12 @@ export async function startQualityAnalysis(
     repoUrl,
     branch,
   );
-  void executeQualityAnalysis(runId, repoPath, resolvedBranch).catch(() => {
+  void executeQualityAnalysis(
+    runId,
+    repositoryId,
+    repoPath,
+    resolvedBranch,
+  ).catch(() => {
     // errors are recorded on the run
   });
   return { runId };
@@ -0,0 +1,170 @@
+import { query } from "../lib/db.js";
+import { listRevisions } from "./git.js";
+import { loadPathFilter } from "./pathFilters.js";
+import {
+  computeQualityGrade,
+  countNewCodeLines,
+  diffFindings,
+  isGradedFinding,
+  type QualityFinding,
+} from "./quality.js";
+import { resolveRef } from "./semver.js";
+
+const RUN_ID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type QualityRunSummary = {
+  id: string;
+  commit_sha: string | null;
+  completed_at: string | null;
+  quality_grade: string | null;
+  new_code_base_run_id: string | null;
+  new_code_lines: number | null;
+};
+
+type DiffedFinding = QualityFinding & {
+  tool: string;
+  fingerprint: string | null;
+  baselined: boolean;
+};
+
+const RUN_COLUMNS = `qr.id, qr.commit_sha, qr.completed_at, qr.quality_grade,
+        qr.new_code_base_run_id, qr.new_code_lines`;
+
+/**
+ * The successful quality run a selector points to: a run id, or a ref
+ * (`HEAD`, tag or SHA) resolved to the last run on a commit reachable from it
+ * (`git rev-list` in the clone at `repoPath`, else by commit time). Without
+ * a selector, the latest successful run.
+ */
+export async function resolveQualityRun(
+  repositoryId: string,
+  selector: string | null,
+  repoPath: string | null = null,
+): Promise<QualityRunSummary | null> {
+  if (!selector || RUN_ID_RE.test(selector)) {
+    const result = await query<QualityRunSummary>(
+      `SELECT ${RUN_COLUMNS}
+       FROM quality_runs qr
+       WHERE qr.repository_id = $1
+         AND qr.status = 'succeeded'
+         AND ($2::uuid IS NULL OR qr.id = $2)
+       ORDER BY qr.completed_at DESC NULLS LAST, qr.created_at DESC
+       LIMIT 1`,
+      [repositoryId, selector],
+    );
+    return result.rows[0] ?? null;
+  }
+
+  const ref = await resolveRef(repositoryId, selector);
+  if (!ref) {
+    return null;
+  }
+
+  const reachable = repoPath
+    ? await listRevisions(repoPath, ref.sha).catch(() => null)
+    : null;
+  const result = await query<QualityRunSummary>(
+    `SELECT ${RUN_COLUMNS}
+     FROM quality_runs qr
+     JOIN commits c ON c.repository_id = qr.repository_id AND c.sha = qr.commit_sha
+     WHERE qr.repository_id = $1
+       AND qr.status = 'succeeded'
+       AND CASE
+         WHEN $3::text[] IS NULL THEN c.committed_at <= $2
+         ELSE c.sha = ANY($3)
+       END
+     ORDER BY c.committed_at DESC, qr.completed_at DESC NULLS LAST
+     LIMIT 1`,
+    [repositoryId, ref.committed_at, reachable],
+  );
+  return result.rows[0] ?? null;
+}
+
+/** The run `head` measured its new code against, else the one before it. */
+export async function findBaseQualityRun(
+  repositoryId: string,
+  head: QualityRunSummary,
+): Promise<QualityRunSummary | null> {
+  const result = await query<QualityRunSummary>(
+    `SELECT ${RUN_COLUMNS}
+     FROM quality_runs qr
+     WHERE qr.repository_id = $1
+       AND qr.status = 'succeeded'
+       AND qr.id <> $2
+       AND (
+         qr.id = $3
+         OR ($3::uuid IS NULL AND qr.completed_at < $4)
+       )
+     ORDER BY qr.completed_at DESC NULLS LAST
+     LIMIT 1`,
+    [repositoryId, head.id, head.new_code_base_run_id, head.completed_at],
+  );
+  return result.rows[0] ?? null;
+}
+
+async function loadDiffedFindings(runId: string) {
+  const result = await query<DiffedFinding>(
+    `SELECT file_path, line_start, line_end, rule_id, severity, category, message, language, tool,
+        enclosing_function, fingerprint, baselined
+     FROM quality_findings
+     WHERE quality_run_id = $1
+       AND NOT suppressed
+     ORDER BY file_path, line_start`,
+    [runId],
+  );
+  return result.rows;
+}
+
+/**
+ * Findings `head` adds, fixes and keeps relative to `base`, matched by
+ * fingerprint, with the grade of the added findings over the lines added
+ * between the two commits. Suppressed findings are left out on both sides.
+ * The added lines come from `head` when it was measured against `base`,
+ * otherwise from `git diff` in the clone at `repoPath`; without either the
+ * new-code grade is null.
+ */
+export async function diffQualityRuns(
+  repositoryId: string,
+  base: QualityRunSummary,
+  head: QualityRunSummary,
+  options: { limit: number; repoPath: string | null },
+) {
+  const [baseFindings, headFindings] = await Promise.all([
+    loadDiffedFindings(base.id),
+    loadDiffedFindings(head.id),
+  ]);
+  const { added, fixed, unchanged } = diffFindings(baseFindings, headFindings);
+
+  let lines: number | null = null;
+  if (head.new_code_base_run_id === base.id) {
+    lines = head.new_code_lines;
+  } else if (options.repoPath && base.commit_sha && head.commit_sha) {
+    const pathFilter = await loadPathFilter(repositoryId);
+    lines = await countNewCodeLines(
+      options.repoPath,
+      base.commit_sha,
+      head.commit_sha,
+      pathFilter,
+    ).catch(() => null);
+  }
+  const graded = added.filter(isGradedFinding);
+
+  return {
+    base,
+    head,
+    summary: {
+      new: added.length,
+      fixed: fixed.length,
+      unchanged: unchanged.length,
+    },
+    new_code: {
+      lines,
+      findings: graded.length,
+      grade: lines ? computeQualityGrade(graded, lines) : null,
+    },
+    new: added.slice(0, options.limit),
+    fixed: fixed.slice(0, options.limit),
+    unchanged: unchanged.slice(0, options.limit),
+  };
+}
@@ -0,0 +1,263 @@
+import { getQualityGate } from "../lib/qualityGates.js";
+import type {
+  QualityCategory,
+  QualityFinding,
+  QualitySeverity,
+} from "./quality.js";
+
+export type QualityGateMetric =
+  | "grade"
+  | "new_code_grade"
+  | "findings"
+  | "new_findings"
+  | "new_code_density"
+  | "hotspot_files_gaining_findings";
+
+export type QualityGateOperator = "lt" | "lte" | "eq" | "gte" | "gt";
+
+export type QualityGateCondition = {
+  metric: QualityGateMetric;
+  operator: QualityGateOperator;
+  /** A grade letter for the grade metrics, a number otherwise. */
+  threshold: number | string;
+  /** Restricts the finding metrics to one category. */
+  category?: QualityCategory;
+  /** Restricts the finding metrics to one severity. */
+  severity?: QualitySeverity;
+  /** Files above this hotspot score count as hot (default 0.8). */
+  hotspotScore?: number;
+};
+
+export type QualityGateStatus = "passed" | "failed";
+
+export type QualityGateResult = {
+  condition: QualityGateCondition;
+  /** Null when the run cannot be measured, e.g. no new code was graded. */
+  actual: number | string | null;
+  passed: boolean;
+  message: string;
+};
+
+/** What a quality run is measured on, gathered by the scanner. */
+export type QualityGateInput = {
+  grade: string | null;
+  newCodeGrade: string | null;
+  newCodeLines: number | null;
+  /** Findings of the run that count toward its grade. */
+  findings: QualityFinding[];
+  /** Graded findings the run adds over its base run; null without one. */
+  newFindings: QualityFinding[] | null;
+  /** Change in each file's graded findings since the base run. */
+  findingDeltas: Map<string, number>;
+  hotspotScores: Map<string, number>;
+};
+
+export const QUALITY_GATE_METRICS: QualityGateMetric[] = [
+  "grade",
+  "new_code_grade",
+  "findings",
+  "new_findings",
+  "new_code_density",
+  "hotspot_files_gaining_findings",
+];
+
+export const QUALITY_GATE_OPERATORS: QualityGateOperator[] = [
+  "lt",
+  "lte",
+  "eq",
+  "gte",
+  "gt",
+];
+
+export const DEFAULT_QUALITY_GATE_CONDITIONS: QualityGateCondition[] = [
+  {
+    metric: "new_findings",
+    category: "security",
+    operator: "eq",
+    threshold: 0,
+  },
+  { metric: "new_code_grade", operator: "gte", threshold: "B" },
+];
+
+const GRADE_METRICS: QualityGateMetric[] = ["grade", "new_code_grade"];
+const FINDING_METRICS: QualityGateMetric[] = [
+  "findings",
+  "new_findings",
+  "new_code_density",
+];
+// Higher is better, so `gte B` accepts A and B.
+const GRADE_RANK: Record<string, number> = { A: 5, B: 4, C: 3, D: 2, F: 1 };
+const DEFAULT_HOTSPOT_SCORE = 0.8;
+
+const OPERATOR_SYMBOLS: Record<QualityGateOperator, string> = {
+  lt: "<",
+  lte: "<=",
+  eq: "=",
+  gte: ">=",
+  gt: ">",
+};
+
+/** Returns why `conditions` cannot be evaluated, or null when they are valid. */
+export function findInvalidQualityGate(
+  conditions: QualityGateCondition[],
+): string | null {
+  for (const [index, condition] of conditions.entries()) {
+    const isGrade = GRADE_METRICS.includes(condition.metric);
+    if (isGrade && !GRADE_RANK[String(condition.threshold)]) {
+      return `conditions[${index}].threshold must be a grade (A-F).`;
+    }
+    if (!isGrade && typeof condition.threshold !== "number") {
+      return `conditions[${index}].threshold must be a number.`;
+    }
+    if (
+      (condition.category || condition.severity) &&
+      !FINDING_METRICS.includes(condition.metric)
+    ) {
+      return `conditions[${index}] cannot filter ${condition.metric} by category or severity.`;
+    }
+    if (
+      condition.hotspotScore !== undefined &&
+      condition.metric !== "hotspot_files_gaining_findings"
+    ) {
+      return `conditions[${index}].hotspotScore only applies to hotspot_files_gaining_findings.`;
+    }
+  }
+  return null;
+}
+
+function matchesFilters(
+  condition: QualityGateCondition,
+  finding: QualityFinding,
+) {
+  return (
+    (!condition.category || finding.category === condition.category) &&
+    (!condition.severity || finding.severity === condition.severity)
+  );
+}
+
+function measure(
+  condition: QualityGateCondition,
+  input: QualityGateInput,
+): number | string | null {
+  switch (condition.metric) {
+    case "grade":
+      return input.grade;
+    case "new_code_grade":
+      return input.newCodeGrade;
+    case "findings":
+      return input.findings.filter((finding) =>
+        matchesFilters(condition, finding),
+      ).length;
+    case "new_findings":
+      return input.newFindings
+        ? input.newFindings.filter((finding) =>
+            matchesFilters(condition, finding),
+          ).length
+        : null;
+    case "new_code_density": {
+      if (!input.newFindings || !input.newCodeLines) {
+        return null;
+      }
+      const count = input.newFindings.filter((finding) =>
+        matchesFilters(condition, finding),
+      ).length;
+      return Math.round((count / (input.newCodeLines / 1000)) * 100) / 100;
+    }
+    case "hotspot_files_gaining_findings": {
+      if (!input.newFindings) {
+        return null;
+      }
+      const minScore = condition.hotspotScore ?? DEFAULT_HOTSPOT_SCORE;
+      let files = 0;
+      for (const [filePath, delta] of input.findingDeltas) {
+        if (delta > 0 && (input.hotspotScores.get(filePath) ?? 0) > minScore) {
+          files += 1;
+        }
+      }
+      return files;
+    }
+  }
+}
+
+function compare(
+  actual: number,
+  operator: QualityGateOperator,
+  threshold: number,
+) {
+  switch (operator) {
+    case "lt":
+      return actual < threshold;
+    case "lte":
+      return actual <= threshold;
+    case "eq":
+      return actual === threshold;
+    case "gte":
+      return actual >= threshold;
+    case "gt":
+      return actual > threshold;
+  }
+}
+
+function describeCondition(condition: QualityGateCondition) {
+  const filters = [
+    condition.category,
+    condition.severity,
+    condition.hotspotScore !== undefined
+      ? `hotspot > ${condition.hotspotScore}`
+      : null,
+  ].filter(Boolean);
+  const label = filters.length
+    ? `${condition.metric} (${filters.join(", ")})`
+    : condition.metric;
+  return `${label} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.threshold}`;
+}
+
+/**
+ * Checks every condition against a run. Conditions the run cannot be
+ * measured on (no grade, no base run, no new code) pass, so a first scan is
+ * not blocked.
+ */
+export function evaluateQualityGate(
+  conditions: QualityGateCondition[],
+  input: QualityGateInput,
+): { status: QualityGateStatus; results: QualityGateResult[] } {
+  const results = conditions.map((condition) => {
+    const actual = measure(condition, input);
+    const isGrade = GRADE_METRICS.includes(condition.metric);
+    const passed =
+      actual === null ||
+      (isGrade
+        ? compare(
+            GRADE_RANK[String(actual)] ?? 0,
+            condition.operator,
+            GRADE_RANK[String(condition.threshold)] ?? 0,
+          )
+        : compare(
+            Number(actual),
+            condition.operator,
+            Number(condition.threshold),
+          ));
+    const description = describeCondition(condition);
+    return {
+      condition,
+      actual,
+      passed,
+      message:
+        actual === null
+          ? `${description}: not measured`
+          : `${description}: ${actual}`,
+    };
+  });
+
+  return {
+    status: results.every((result) => result.passed) ? "passed" : "failed",
+    results,
+  };
+}
+
+export async function loadQualityGateConditions(
+  repositoryId: string,
+): Promise<QualityGateCondition[]> {
+  const stored = await getQualityGate(repositoryId);
+  return stored?.conditions ?? DEFAULT_QUALITY_GATE_CONDITIONS;
+}
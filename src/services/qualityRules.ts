@@ -0,0 +1,532 @@
+import * as ts from "typescript";
+import { getQualityProfile } from "../lib/qualityProfiles.js";
+import type { QualityCategory, QualitySeverity } from "./quality.js";
+
+export const QUALITY_SEVERITIES: QualitySeverity[] = [
+  "info",
+  "warning",
+  "error",
+];
+export const QUALITY_CATEGORIES: QualityCategory[] = [
+  "bug",
+  "security",
+  "code_smell",
+  "performance",
+];
+
+export type QualityRuleOptionValue = number | string | string[];
+
+export type QualityRuleOption = {
+  type: "number" | "string" | "string[]";
+  default: QualityRuleOptionValue;
+  description: string;
+};
+
+export type QualityRuleOptions = Record<string, QualityRuleOptionValue>;
+
+export type QualityRuleContext = {
+  filePath: string;
+  language: string;
+  sourceFile: ts.SourceFile;
+  lines: string[];
+  options: QualityRuleOptions;
+  /** 1-based line of the node's first token. */
+  lineOf: (node: ts.Node) => number;
+  report: (
+    lineStart: number,
+    lineEnd?: number | null,
+    message?: string,
+  ) => void;
+};
+
+export type QualityRule = {
+  id: string;
+  name: string;
+  description: string;
+  category: QualityCategory;
+  severity: QualitySeverity;
+  /** Finding message unless the rule reports its own. */
+  message: string;
+  options: Record<string, QualityRuleOption>;
+  /** Runs once per file, before the AST walk. */
+  checkFile?: (context: QualityRuleContext) => void;
+  /** Runs for every AST node; `loopDepth` counts the enclosing loops. */
+  checkNode?: (
+    node: ts.Node,
+    context: QualityRuleContext,
+    loopDepth: number,
+  ) => void;
+};
+
+/** Per-repository overrides of a rule's defaults. */
+export type QualityRuleSetting = {
+  enabled?: boolean;
+  severity?: QualitySeverity;
+  options?: Partial<QualityRuleOptions>;
+};
+
+export type QualityProfile = {
+  rules: Record<string, QualityRuleSetting>;
+};
+
+export type ResolvedQualityRule = {
+  rule: QualityRule;
+  enabled: boolean;
+  severity: QualitySeverity;
+  options: QualityRuleOptions;
+};
+
+export const DEFAULT_QUALITY_PROFILE: QualityProfile = { rules: {} };
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function isLoopStatement(node: ts.Node): boolean {
+  return (
+    ts.isForStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node)
+  );
+}
+
+/**
+ * Every rule of the built-in scanner, in reporting order. `large-file-bytes`
+ * and `file-read-failed` are reported by the scanner itself for files it
+ * cannot parse, so they carry no checks.
+ */
+export const QUALITY_RULES: QualityRule[] = [
+  {
+    id: "todo-fixme",
+    name: "TODO/FIXME marker",
+    description: "TODO, FIXME and HACK comments mark unfinished work.",
+    category: "code_smell",
+    severity: "info",
+    message: "TODO/FIXME markers present.",
+    options: {
+      markers: {
+        type: "string[]",
+        default: ["TODO", "FIXME", "HACK"],
+        description: "Case-insensitive words that flag a line.",
+      },
+    },
+    checkFile: (context) => {
+      const markers = (context.options.markers as string[]).filter(Boolean);
+      if (!markers.length) {
+        return;
+      }
+      const pattern = new RegExp(
+        `\\b(${markers.map(escapeRegExp).join("|")})\\b`,
+        "i",
+      );
+      context.lines.forEach((lineText, index) => {
+        if (pattern.test(lineText)) {
+          context.report(index + 1, index + 1);
+        }
+      });
+    },
+  },
+  {
+    id: "large-file",
+    name: "Large file",
+    description: "Long files are hard to navigate and review.",
+    category: "code_smell",
+    severity: "warning",
+    message: "File exceeds recommended line count.",
+    options: {
+      maxLines: {
+        type: "number",
+        default: 600,
+        description: "Files with at least this many lines are reported.",
+      },
+    },
+    checkFile: (context) => {
+      if (context.lines.length >= (context.options.maxLines as number)) {
+        context.report(1, context.lines.length);
+      }
+    },
+  },
+  {
+    id: "large-file-bytes",
+    name: "File too large to analyze",
+    description: "Files above the size limit are skipped by the scanner.",
+    category: "code_smell",
+    severity: "warning",
+    message: "File exceeds size threshold for analysis.",
+    options: {
+      maxBytes: {
+        type: "number",
+        default: 100_000,
+        description: "Larger files are reported instead of analyzed.",
+      },
+    },
+  },
+  {
+    id: "file-read-failed",
+    name: "Unreadable file",
+    description: "The file could not be read for analysis.",
+    category: "code_smell",
+    severity: "warning",
+    message: "File could not be read for analysis.",
+    options: {},
+  },
+  {
+    id: "large-function",
+    name: "Large function",
+    description: "Long functions do too much to reason about.",
+    category: "code_smell",
+    severity: "warning",
+    message: "Function exceeds recommended length.",
+    options: {
+      maxLines: {
+        type: "number",
+        default: 80,
+        description:
+          "Functions spanning at least this many lines are reported.",
+      },
+    },
+    checkNode: (node, context) => {
+      if (!ts.isFunctionLike(node) || !("body" in node) || !node.body) {
+        return;
+      }
+      const startLine = context.lineOf(node);
+      const endLine =
+        context.sourceFile.getLineAndCharacterOfPosition(node.end).line + 1;
+      if (endLine - startLine + 1 >= (context.options.maxLines as number)) {
+        context.report(startLine, endLine);
+      }
+    },
+  },
+  {
+    id: "no-debugger",
+    name: "Debugger statement",
+    description: "`debugger` statements pause execution in devtools.",
+    category: "code_smell",
+    severity: "warning",
+    message: "Debugger statement left in code.",
+    options: {},
+    checkNode: (node, context) => {
+      if (ts.isDebuggerStatement(node)) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "throw-string",
+    name: "Thrown string",
+    description: "Throwing string literals loses the stack trace.",
+    category: "bug",
+    severity: "warning",
+    message: "Throwing raw strings reduces stack trace context.",
+    options: {},
+    checkNode: (node, context) => {
+      if (ts.isThrowStatement(node) && ts.isStringLiteral(node.expression)) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "empty-catch",
+    name: "Empty catch block",
+    description: "Empty catch blocks silently swallow errors.",
+    category: "bug",
+    severity: "warning",
+    message: "Empty catch blocks hide errors.",
+    options: {},
+    checkNode: (node, context) => {
+      if (ts.isCatchClause(node) && node.block.statements.length === 0) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "no-loose-eq",
+    name: "Loose equality",
+    description: "`==` and `!=` coerce types; use `===` and `!==`.",
+    category: "code_smell",
+    severity: "warning",
+    message: "Use strict equality operators.",
+    options: {},
+    checkNode: (node, context) => {
+      if (
+        ts.isBinaryExpression(node) &&
+        (node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsToken ||
+          node.operatorToken.kind === ts.SyntaxKind.ExclamationEqualsToken)
+      ) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "no-nan-compare",
+    name: "Comparison with NaN",
+    description: "Comparing with NaN is always false; use Number.isNaN.",
+    category: "bug",
+    severity: "error",
+    message: "Comparing to NaN always returns false.",
+    options: {},
+    checkNode: (node, context) => {
+      if (
+        !ts.isBinaryExpression(node) ||
+        (node.operatorToken.kind !== ts.SyntaxKind.EqualsEqualsEqualsToken &&
+          node.operatorToken.kind !==
+            ts.SyntaxKind.ExclamationEqualsEqualsToken)
+      ) {
+        return;
+      }
+      const isNaNIdentifier = (side: ts.Expression) =>
+        ts.isIdentifier(side) && side.text === "NaN";
+      if (isNaNIdentifier(node.left) || isNaNIdentifier(node.right)) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "no-innerhtml",
+    name: "innerHTML assignment",
+    description: "Assigning to innerHTML can introduce cross-site scripting.",
+    category: "security",
+    severity: "warning",
+    message: "Setting innerHTML can introduce XSS.",
+    options: {},
+    checkNode: (node, context) => {
+      if (
+        ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isPropertyAccessExpression(node.left) &&
+        node.left.name.text === "innerHTML"
+      ) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "no-explicit-any",
+    name: "Explicit any",
+    description: "`any` disables type checking for the value.",
+    category: "code_smell",
+    severity: "warning",
+    message: "Explicit any type weakens type safety.",
+    options: {},
+    checkNode: (node, context) => {
+      if (node.kind === ts.SyntaxKind.AnyKeyword) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "no-eval",
+    name: "eval call",
+    description: "eval executes arbitrary code.",
+    category: "security",
+    severity: "error",
+    message: "Avoid eval for security reasons.",
+    options: {},
+    checkNode: (node, context) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === "eval"
+      ) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "no-console",
+    name: "Console output",
+    description: "Console calls left in production code leak noise and data.",
+    category: "code_smell",
+    severity: "info",
+    message: "Console output left in production code.",
+    options: {
+      methods: {
+        type: "string[]",
+        default: ["log", "debug", "info", "warn", "error"],
+        description: "console methods that are reported.",
+      },
+    },
+    checkNode: (node, context) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        ts.isIdentifier(node.expression.expression) &&
+        node.expression.expression.text === "console" &&
+        (context.options.methods as string[]).includes(
+          node.expression.name.text,
+        )
+      ) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "child-process",
+    name: "Process execution",
+    description: "Spawning processes with unvalidated input allows injection.",
+    category: "security",
+    severity: "warning",
+    message: "Process execution should validate inputs carefully.",
+    options: {
+      methods: {
+        type: "string[]",
+        default: ["exec", "execSync", "spawn", "spawnSync", "fork"],
+        description: "Method names treated as process execution.",
+      },
+    },
+    checkNode: (node, context) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        (context.options.methods as string[]).includes(
+          node.expression.name.text,
+        )
+      ) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "no-function-constructor",
+    name: "Function constructor",
+    description: "The Function constructor evaluates strings as code.",
+    category: "security",
+    severity: "error",
+    message: "Avoid Function constructor for security reasons.",
+    options: {},
+    checkNode: (node, context) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === "Function"
+      ) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+  {
+    id: "nested-loop",
+    name: "Nested loop",
+    description: "Nested loops grow quadratically with their input.",
+    category: "performance",
+    severity: "warning",
+    message: "Nested loops can cause performance hotspots.",
+    options: {
+      maxDepth: {
+        type: "number",
+        default: 1,
+        description: "Loops inside at least this many loops are reported.",
+      },
+    },
+    checkNode: (node, context, loopDepth) => {
+      if (
+        isLoopStatement(node) &&
+        loopDepth >= (context.options.maxDepth as number)
+      ) {
+        context.report(context.lineOf(node));
+      }
+    },
+  },
+];
+
+const RULES_BY_ID = new Map(QUALITY_RULES.map((rule) => [rule.id, rule]));
+
+export function getQualityRule(ruleId: string): QualityRule | undefined {
+  return RULES_BY_ID.get(ruleId);
+}
+
+function matchesOptionType(
+  option: QualityRuleOption,
+  value: unknown,
+): value is QualityRuleOptionValue {
+  if (option.type === "number") {
+    return typeof value === "number" && Number.isFinite(value);
+  }
+  if (option.type === "string") {
+    return typeof value === "string";
+  }
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/** Returns why `profile` cannot be applied, or null when it is valid. */
+export function findInvalidQualityProfile(
+  profile: Partial<QualityProfile>,
+): string | null {
+  for (const [ruleId, setting] of Object.entries(profile.rules ?? {})) {
+    const rule = RULES_BY_ID.get(ruleId);
+    if (!rule) {
+      return `Unknown rule: ${ruleId}`;
+    }
+    for (const [name, value] of Object.entries(setting.options ?? {})) {
+      const option = rule.options[name];
+      if (!option) {
+        return `Unknown option ${name} for rule ${ruleId}`;
+      }
+      if (!matchesOptionType(option, value)) {
+        return `Option ${name} of rule ${ruleId} must be a ${option.type}`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Every rule with the profile's overrides applied over its defaults. */
+export function resolveQualityRules(
+  profile: Partial<QualityProfile> | null = null,
+): ResolvedQualityRule[] {
+  return QUALITY_RULES.map((rule) => {
+    const setting = profile?.rules?.[rule.id] ?? {};
+    const options: QualityRuleOptions = {};
+    for (const [name, option] of Object.entries(rule.options)) {
+      const value = setting.options?.[name];
+      options[name] = matchesOptionType(option, value) ? value : option.default;
+    }
+    return {
+      rule,
+      enabled: setting.enabled ?? true,
+      severity: setting.severity ?? rule.severity,
+      options,
+    };
+  });
+}
+
+/** The effective settings of every rule, as recorded on a quality run. */
+export function describeQualityRules(
+  rules: ResolvedQualityRule[],
+): QualityProfile {
+  return {
+    rules: Object.fromEntries(
+      rules.map((resolved) => [
+        resolved.rule.id,
+        {
+          enabled: resolved.enabled,
+          severity: resolved.severity,
+          options: resolved.options,
+        },
+      ]),
+    ),
+  };
+}
+
+/** The rule catalog without its check functions. */
+export function listQualityRules() {
+  return QUALITY_RULES.map((rule) => ({
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    severity: rule.severity,
+    options: rule.options,
+  }));
+}
+
+export async function loadQualityRules(
+  repositoryId: string,
+): Promise<ResolvedQualityRule[]> {
+  const stored = await getQualityProfile(repositoryId);
+  return resolveQualityRules(stored?.profile ?? null);
+}
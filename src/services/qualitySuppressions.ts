@@ -0,0 +1,80 @@
+export type SuppressionScope = "file" | "line" | "next-line";
+
+/** One `archaeology-ignore-*` comment; no rules means every rule. */
+export type Suppression = {
+  scope: SuppressionScope;
+  /** 1-based line the comment is on. */
+  line: number;
+  rules: string[];
+  reason: string | null;
+};
+
+export type SuppressionMatcher = {
+  /** The matching suppression of a finding, or null when it is reported. */
+  find: (ruleId: string, line: number) => Suppression | null;
+};
+
+const SUPPRESSION_RE = /archaeology-ignore-(next-line|line|file)(?![\w-])(.*)$/;
+
+/**
+ * Parses the suppression comments of a source file:
+ *
+ *   // archaeology-ignore-next-line no-eval, no-console -- reason
+ *   foo(); // archaeology-ignore-line child-process -- reason
+ *   // archaeology-ignore-file no-explicit-any
+ *
+ * Block comments work too. Rules are separated by commas or spaces and
+ * everything after `--` is the reason.
+ */
+export function parseSuppressions(lines: string[]): Suppression[] {
+  const suppressions: Suppression[] = [];
+  lines.forEach((lineText, index) => {
+    const match = lineText.match(SUPPRESSION_RE);
+    if (!match) {
+      return;
+    }
+
+    const body = (match[2] ?? "").replace(/\*\/.*$/, "");
+    const separator = body.indexOf("--");
+    const rulesPart = separator === -1 ? body : body.slice(0, separator);
+    const reason = separator === -1 ? "" : body.slice(separator + 2).trim();
+    suppressions.push({
+      scope: match[1] as SuppressionScope,
+      line: index + 1,
+      rules: rulesPart.split(/[\s,]+/).filter(Boolean),
+      reason: reason || null,
+    });
+  });
+  return suppressions;
+}
+
+export function buildSuppressionMatcher(
+  suppressions: Suppression[],
+): SuppressionMatcher {
+  const covers = (suppression: Suppression, ruleId: string) =>
+    !suppression.rules.length || suppression.rules.includes(ruleId);
+
+  const fileWide = suppressions.filter(
+    (suppression) => suppression.scope === "file",
+  );
+  const byLine = new Map<number, Suppression[]>();
+  for (const suppression of suppressions) {
+    if (suppression.scope === "file") {
+      continue;
+    }
+    const target =
+      suppression.scope === "next-line"
+        ? suppression.line + 1
+        : suppression.line;
+    byLine.set(target, [...(byLine.get(target) ?? []), suppression]);
+  }
+
+  return {
+    find: (ruleId, line) =>
+      (byLine.get(line) ?? []).find((suppression) =>
+        covers(suppression, ruleId),
+      ) ??
+      fileWide.find((suppression) => covers(suppression, ruleId)) ??
+      null,
+  };
+}
@@ -0,0 +1,67 @@
+import { getClassificationConfig } from "../lib/classificationConfigs.js";
+import {
+  type ClassificationUpdate,
+  updateCommitClassifications,
+} from "../lib/commits.js";
+import { query } from "../lib/db.js";
+import { createClassifier } from "./classification.js";
+
+/**
+ * Re-labels every stored commit with the repository's current classification
+ * config and its recorded file changes; manual overrides are kept. `changed`
+ * counts label changes only; dependent metrics are left to the caller.
+ */
+export async function reclassifyCommits(repositoryId: string) {
+  const stored = await getClassificationConfig(repositoryId);
+  const classify = createClassifier(stored?.config);
+
+  const result = await query<{
+    id: string;
+    message: string;
+    classification: string;
+    classification_confidence: number;
+    classification_signal: string | null;
+    file_paths: string[];
+  }>(
+    `SELECT
+        c.id,
+        c.message,
+        c.classification,
+        c.classification_confidence,
+        c.classification_signal,
+        COALESCE(array_agg(fc.file_path) FILTER (WHERE fc.file_path IS NOT NULL), '{}') AS file_paths
+     FROM commits c
+     LEFT JOIN file_changes fc ON fc.commit_id = c.id
+     WHERE c.repository_id = $1
+       AND c.classification_source = 'auto'
+     GROUP BY c.id`,
+    [repositoryId],
+  );
+
+  const updates: ClassificationUpdate[] = [];
+  let changed = 0;
+  for (const row of result.rows) {
+    const classification = classify(row.message, row.file_paths);
+    const relabeled = classification.label !== row.classification;
+    if (
+      relabeled ||
+      classification.signal !== row.classification_signal ||
+      Math.abs(classification.confidence - row.classification_confidence) >
+        0.0005
+    ) {
+      updates.push({
+        commitId: row.id,
+        classification: classification.label,
+        confidence: classification.confidence,
+        signal: classification.signal,
+      });
+    }
+    if (relabeled) {
+      changed += 1;
+    }
+  }
+
+  await updateCommitClassifications(repositoryId, updates);
+
+  return { commits: result.rows.length, changed };
+}
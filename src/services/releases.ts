@@ -0,0 +1,351 @@
+import { query } from "../lib/db.js";
+import {
+  COMMIT_CLASSIFICATION_SQL,
+  highestSemverBump,
+} from "./classification.js";
+import { listRevisions } from "./git.js";
+import {
+  diffFindings,
+  isGradedFinding,
+  type QualityFinding,
+} from "./quality.js";
+
+type ReleaseRow = {
+  tag: string;
+  commit_sha: string;
+  tagged_at: Date | null;
+  annotated: boolean;
+  released_at: Date | null;
+};
+
+type SnapshotTotalsRow = {
+  commit_sha: string;
+  bucket_label: string | null;
+  committed_at: Date;
+  files: number;
+  functions: number;
+  conditionals: number;
+  max_nesting: number;
+  lines: number;
+};
+
+type QualityRunRow = {
+  id: string;
+  commit_sha: string;
+  quality_grade: string | null;
+  committed_at: Date;
+};
+
+const MAX_NEW_FINDINGS = 100;
+
+function timeOf(date: Date | null | undefined): number {
+  return date ? new Date(date).getTime() : Number.NEGATIVE_INFINITY;
+}
+
+/** The last of `rows` (in commit order) whose commit is in `shas`. */
+function lastIn<T extends { commit_sha: string }>(
+  rows: T[],
+  shas: Set<string>,
+): T | null {
+  let match: T | null = null;
+  for (const row of rows) {
+    if (shas.has(row.commit_sha)) {
+      match = row;
+    }
+  }
+  return match;
+}
+
+/**
+ * The commits of a release: `interval` is `previous..release` and
+ * `reachable` everything reachable from the release commit. Ancestry comes
+ * from `git rev-list` in the clone at `repoPath`; without a usable clone the
+ * stored commits are split by commit time instead.
+ */
+async function loadReleaseCommits(
+  repositoryId: string,
+  release: ReleaseRow,
+  previous: ReleaseRow | null,
+  repoPath: string | null,
+): Promise<{ interval: string[]; reachable: Set<string> }> {
+  if (repoPath) {
+    try {
+      const [interval, reachable] = await Promise.all([
+        listRevisions(
+          repoPath,
+          previous
+            ? `${previous.commit_sha}..${release.commit_sha}`
+            : release.commit_sha,
+        ),
+        listRevisions(repoPath, release.commit_sha),
+      ]);
+      return { interval, reachable: new Set(reachable) };
+    } catch {
+      // Tag commits missing from the clone; fall back to commit times.
+    }
+  }
+
+  const result = await query<{ sha: string; in_interval: boolean }>(
+    `SELECT sha, ($2::timestamptz IS NULL OR committed_at > $2) AS in_interval
+     FROM commits
+     WHERE repository_id = $1
+       AND committed_at <= $3`,
+    [repositoryId, previous?.released_at ?? null, release.released_at],
+  );
+  return {
+    interval: result.rows
+      .filter((row) => row.in_interval)
+      .map((row) => row.sha),
+    reachable: new Set(result.rows.map((row) => row.sha)),
+  };
+}
+
+/** Unsuppressed findings of a quality run, most severe first. */
+async function loadReleaseFindings(runId: string) {
+  const result = await query<QualityFinding>(
+    `SELECT file_path, line_start, line_end, rule_id, severity, category, message, tool,
+        enclosing_function, fingerprint, baselined
+     FROM quality_findings
+     WHERE quality_run_id = $1
+       AND NOT suppressed
+     ORDER BY
+       CASE severity WHEN 'error' THEN 0 WHEN 'warning' THEN 1 ELSE 2 END,
+       file_path,
+       line_start`,
+    [runId],
+  );
+  return result.rows;
+}
+
+export async function listReleases(repositoryId: string) {
+  const result = await query<ReleaseRow>(
+    `SELECT
+        r.tag,
+        r.commit_sha,
+        r.tagged_at,
+        r.annotated,
+        COALESCE(c.committed_at, r.tagged_at) AS released_at
+     FROM releases r
+     LEFT JOIN commits c ON c.repository_id = r.repository_id AND c.sha = r.commit_sha
+     WHERE r.repository_id = $1
+     ORDER BY released_at ASC NULLS FIRST, r.tag ASC`,
+    [repositoryId],
+  );
+  return result.rows;
+}
+
+/**
+ * Summarizes the interval between the previous release and `tag`: the
+ * commits reachable from the release commit but not from the previous one
+ * (`git rev-list previous..tag`). Returns null when the tag is unknown.
+ */
+export async function getReleaseReport(
+  repositoryId: string,
+  tag: string,
+  topFilesLimit = 10,
+  repoPath: string | null = null,
+) {
+  const releases = await listReleases(repositoryId);
+  const index = releases.findIndex((release) => release.tag === tag);
+  const release = releases[index];
+  if (!release) {
+    return null;
+  }
+
+  // Tags sharing the release commit do not open a new interval.
+  const previous =
+    releases
+      .slice(0, index)
+      .filter(
+        (candidate) =>
+          timeOf(candidate.released_at) < timeOf(release.released_at),
+      )
+      .pop() ?? null;
+  const { interval, reachable } = await loadReleaseCommits(
+    repositoryId,
+    release,
+    previous,
+    repoPath,
+  );
+  const intervalShas = new Set(interval);
+  // Everything the previous release already contained.
+  const previousReachable = new Set(
+    Array.from(reachable).filter((sha) => !intervalShas.has(sha)),
+  );
+
+  const intervalParams = [repositoryId, interval];
+  const byClassification = await query<{
+    classification: string;
+    commits: number;
+  }>(
+    `SELECT ${COMMIT_CLASSIFICATION_SQL} AS classification, COUNT(*)::int AS commits
+     FROM commits c
+     WHERE c.repository_id = $1
+       AND c.sha = ANY($2)
+     GROUP BY 1
+     ORDER BY commits DESC`,
+    intervalParams,
+  );
+
+  const bumps = await query<{
+    semver_bump: string;
+    commits: number;
+    breaking: number;
+  }>(
+    `SELECT
+        c.semver_bump,
+        COUNT(*)::int AS commits,
+        COUNT(*) FILTER (WHERE c.breaking)::int AS breaking
+     FROM commits c
+     WHERE c.repository_id = $1
+       AND c.sha = ANY($2)
+     GROUP BY c.semver_bump`,
+    intervalParams,
+  );
+
+  const contributors = await query<{
+    name: string;
+    email: string | null;
+    commits: number;
+    churn: number;
+  }>(
+    `SELECT
+        c.author_name AS name,
+        c.author_email AS email,
+        COUNT(DISTINCT c.id)::int AS commits,
+        COALESCE(SUM(fc.additions + fc.deletions), 0)::int AS churn
+     FROM commits c
+     LEFT JOIN file_changes fc ON fc.commit_id = c.id
+     WHERE c.repository_id = $1
+       AND c.sha = ANY($2)
+     GROUP BY c.author_name, c.author_email
+     ORDER BY commits DESC, churn DESC`,
+    intervalParams,
+  );
+
+  const topFiles = await query<{
+    file_path: string;
+    commits: number;
+    churn: number;
+  }>(
+    `SELECT
+        fc.file_path,
+        COUNT(DISTINCT c.id)::int AS commits,
+        SUM(fc.additions + fc.deletions)::int AS churn
+     FROM file_changes fc
+     JOIN commits c ON c.id = fc.commit_id
+     WHERE c.repository_id = $1
+       AND c.sha = ANY($2)
+     GROUP BY fc.file_path
+     ORDER BY churn DESC, commits DESC
+     LIMIT $3`,
+    [...intervalParams, topFilesLimit],
+  );
+
+  const snapshots = await query<SnapshotTotalsRow>(
+    `SELECT
+        cs.commit_sha,
+        cs.bucket_label,
+        MAX(c.committed_at) AS committed_at,
+        COUNT(*)::int AS files,
+        SUM(cs.functions)::int AS functions,
+        SUM(cs.conditionals)::int AS conditionals,
+        MAX(cs.max_nesting)::int AS max_nesting,
+        SUM(cs.lines)::int AS lines
+     FROM complexity_snapshots cs
+     JOIN commits c ON c.repository_id = cs.repository_id AND c.sha = cs.commit_sha
+     WHERE cs.repository_id = $1
+     GROUP BY cs.commit_sha, cs.bucket_label
+     ORDER BY committed_at ASC`,
+    [repositoryId],
+  );
+
+  const complexityTo = lastIn(snapshots.rows, reachable);
+  const complexityFrom = previous
+    ? lastIn(snapshots.rows, previousReachable)
+    : null;
+  const complexity = complexityTo
+    ? {
+        from: complexityFrom,
+        to: complexityTo,
+        delta: complexityFrom
+          ? {
+              files: complexityTo.files - complexityFrom.files,
+              functions: complexityTo.functions - complexityFrom.functions,
+              conditionals:
+                complexityTo.conditionals - complexityFrom.conditionals,
+              max_nesting:
+                complexityTo.max_nesting - complexityFrom.max_nesting,
+              lines: complexityTo.lines - complexityFrom.lines,
+            }
+          : null,
+      }
+    : null;
+
+  const qualityRuns = await query<QualityRunRow>(
+    `SELECT qr.id, qr.commit_sha, qr.quality_grade, c.committed_at
+     FROM quality_runs qr
+     JOIN commits c ON c.repository_id = qr.repository_id AND c.sha = qr.commit_sha
+     WHERE qr.repository_id = $1
+       AND qr.status = 'succeeded'
+     ORDER BY c.committed_at ASC, qr.completed_at ASC`,
+    [repositoryId],
+  );
+
+  // Only a run inside the interval describes this release; the base run is
+  // the last one the previous release contains.
+  const releaseRun = lastIn(qualityRuns.rows, intervalShas);
+  const baseRun = previous ? lastIn(qualityRuns.rows, previousReachable) : null;
+  let quality = null;
+  if (releaseRun) {
+    // Matched by fingerprint like `/quality/diff` and the gate, so a further
+    // copy of a known finding still counts as new.
+    const [releaseFindings, baseFindings] = await Promise.all([
+      loadReleaseFindings(releaseRun.id),
+      baseRun ? loadReleaseFindings(baseRun.id) : [],
+    ]);
+    const newFindings = diffFindings(baseFindings, releaseFindings)
+      .added.filter(isGradedFinding)
+      .map(
+        ({ file_path, line_start, rule_id, severity, category, message }) => ({
+          file_path,
+          line_start,
+          rule_id,
+          severity,
+          category,
+          message,
+        }),
+      );
+
+    quality = {
+      run_id: releaseRun.id,
+      commit_sha: releaseRun.commit_sha,
+      grade: releaseRun.quality_grade,
+      base_run_id: baseRun?.id ?? null,
+      new_findings_count: newFindings.length,
+      new_findings: newFindings.slice(0, MAX_NEW_FINDINGS),
+    };
+  }
+
+  const classificationCounts: Record<string, number> = {};
+  let commitCount = 0;
+  for (const row of byClassification.rows) {
+    classificationCounts[row.classification] = row.commits;
+    commitCount += row.commits;
+  }
+
+  return {
+    release,
+    previous,
+    commits: {
+      total: commitCount,
+      by_classification: classificationCounts,
+      breaking: bumps.rows.reduce((sum, row) => sum + row.breaking, 0),
+      semver_bump: highestSemverBump(bumps.rows.map((row) => row.semver_bump)),
+    },
+    contributors: contributors.rows,
+    top_files: topFiles.rows,
+    complexity,
+    quality,
+  };
+}
@@ -0,0 +1,205 @@
+import { query } from "../lib/db.js";
+
+type RenameRow = {
+  old_path: string;
+  new_path: string;
+  commit_sha: string;
+  committed_at: string;
+};
+
+export type RenameEvent = {
+  oldPath: string;
+  newPath: string;
+  commitSha: string;
+  committedAt: string;
+};
+
+export type PathResolver = {
+  /**
+   * Maps a historical path to the path the file lives at today. `at` is the
+   * time of a change to the path (or of the rename that next moved it, see
+   * `NEXT_RENAME_JOIN_SQL`): a path that was renamed away and later
+   * re-created then resolves to whichever file it held at that time. Without
+   * `at`, the path's latest life is meant.
+   */
+  resolve: (filePath: string, at?: Date | string | null) => string;
+  /** Every historical path (including the current one) of a current path. */
+  lineage: (currentPath: string) => string[];
+};
+
+/**
+ * Joins `departure.departed_at`: when the path of the change `fc` in commit
+ * `c` was next renamed away, or null. Group by it next to the path and pass
+ * it to `resolve` so the lives of a reused path stay apart.
+ */
+export const NEXT_RENAME_JOIN_SQL = `LEFT JOIN LATERAL (
+  SELECT MIN(rc.committed_at) AS departed_at
+  FROM file_renames fr
+  JOIN commits rc ON rc.id = fr.commit_id
+  WHERE fr.repository_id = c.repository_id
+    AND fr.old_path = fc.file_path
+    AND fr.new_path <> fr.old_path
+    AND rc.committed_at >= c.committed_at
+) departure ON true`;
+
+type Departure = { at: number; to: string };
+
+export async function loadRenameEvents(
+  repositoryId: string,
+): Promise<RenameEvent[]> {
+  const result = await query<RenameRow>(
+    `SELECT fr.old_path, fr.new_path, c.sha AS commit_sha, c.committed_at
+     FROM file_renames fr
+     JOIN commits c ON c.id = fr.commit_id
+     WHERE fr.repository_id = $1
+     ORDER BY c.committed_at ASC, fr.old_path ASC`,
+    [repositoryId],
+  );
+
+  return result.rows.map((row) => ({
+    oldPath: row.old_path,
+    newPath: row.new_path,
+    commitSha: row.commit_sha,
+    committedAt: row.committed_at,
+  }));
+}
+
+function timeOf(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+/**
+ * Replays renames in commit order. A path lives on under its new name up to
+ * the rename that moved it; changes after that (the path re-created by an
+ * add, or reused as a rename target) start a fresh lineage. `lastChanges`
+ * holds the latest change of each renamed-away path, so a path given
+ * without a time resolves to its re-created file when there is one.
+ */
+export function buildPathResolver(
+  events: RenameEvent[],
+  lastChanges: Map<string, Date | string> = new Map(),
+): PathResolver {
+  const departures = new Map<string, Departure[]>();
+  const arrivals = new Map<string, number>();
+  for (const [filePath, changedAt] of lastChanges) {
+    arrivals.set(filePath, timeOf(changedAt));
+  }
+  for (const event of events) {
+    if (event.oldPath === event.newPath) {
+      continue;
+    }
+    const at = timeOf(event.committedAt);
+    departures.set(event.oldPath, [
+      ...(departures.get(event.oldPath) ?? []),
+      { at, to: event.newPath },
+    ]);
+    arrivals.set(
+      event.newPath,
+      Math.max(arrivals.get(event.newPath) ?? at, at),
+    );
+  }
+
+  // Follows the renames of `filePath` from `at` on; after the first hop a
+  // rename must be strictly later, so swaps within one commit terminate.
+  const follow = (filePath: string, at: number, inclusive: boolean) => {
+    let current = filePath;
+    let time = at;
+    let first = inclusive;
+    for (let hop = 0; hop <= events.length; hop += 1) {
+      const next = departures
+        .get(current)
+        ?.find((departure) =>
+          first ? departure.at >= time : departure.at > time,
+        );
+      if (!next) {
+        break;
+      }
+      current = next.to;
+      time = next.at;
+      first = false;
+    }
+    return current;
+  };
+
+  const members = new Map<string, Set<string>>();
+  for (const event of events) {
+    if (event.oldPath === event.newPath) {
+      continue;
+    }
+    const currentPath = follow(event.newPath, timeOf(event.committedAt), false);
+    if (currentPath === event.oldPath) {
+      continue;
+    }
+    const paths = members.get(currentPath) ?? new Set<string>();
+    paths.add(event.oldPath);
+    members.set(currentPath, paths);
+  }
+
+  return {
+    resolve: (filePath, at) =>
+      follow(
+        filePath,
+        at ? timeOf(at) : (arrivals.get(filePath) ?? Number.NEGATIVE_INFINITY),
+        true,
+      ),
+    lineage: (currentPath) => [
+      currentPath,
+      ...Array.from(members.get(currentPath) ?? []),
+    ],
+  };
+}
+
+/** The latest change of every path that was renamed away at some point. */
+async function loadLastChanges(
+  repositoryId: string,
+): Promise<Map<string, Date | string>> {
+  const result = await query<{ file_path: string; changed_at: string }>(
+    `SELECT fc.file_path, MAX(c.committed_at) AS changed_at
+     FROM file_changes fc
+     JOIN commits c ON c.id = fc.commit_id
+     WHERE c.repository_id = $1
+       AND fc.file_path IN (
+         SELECT old_path FROM file_renames WHERE repository_id = $1
+       )
+     GROUP BY fc.file_path`,
+    [repositoryId],
+  );
+  return new Map(result.rows.map((row) => [row.file_path, row.changed_at]));
+}
+
+export async function loadPathResolver(
+  repositoryId: string,
+): Promise<PathResolver> {
+  const [events, lastChanges] = await Promise.all([
+    loadRenameEvents(repositoryId),
+    loadLastChanges(repositoryId),
+  ]);
+  return buildPathResolver(events, lastChanges);
+}
+
+export async function getFileLineage(repositoryId: string, filePath: string) {
+  const [events, lastChanges] = await Promise.all([
+    loadRenameEvents(repositoryId),
+    loadLastChanges(repositoryId),
+  ]);
+  const resolver = buildPathResolver(events, lastChanges);
+  const currentPath = resolver.resolve(filePath);
+  const paths = resolver.lineage(currentPath);
+  const pathSet = new Set(paths);
+
+  const renames = events
+    .filter((event) => pathSet.has(event.oldPath) && pathSet.has(event.newPath))
+    .map((event) => ({
+      from: event.oldPath,
+      to: event.newPath,
+      commit_sha: event.commitSha,
+      committed_at: event.committedAt,
+    }));
+
+  return {
+    file_path: currentPath,
+    requested_path: filePath,
+    paths,
+    renames,
+  };
+}
@@ -0,0 +1,709 @@
+import path from "node:path";
+import { query } from "../lib/db.js";
+import {
+  QUALITY_TOOL,
+  type QualityCategory,
+  type QualityFinding,
+  type QualitySeverity,
+} from "./quality.js";
+import { type QualityProfile, resolveQualityRules } from "./qualityRules.js";
+
+const SARIF_VERSION = "2.1.0";
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const QUALITY_CATEGORIES: QualityCategory[] = [
+  "bug",
+  "security",
+  "code_smell",
+  "performance",
+];
+
+type SarifLevel = "none" | "note" | "warning" | "error";
+
+type SarifMessage = {
+  text?: string;
+  markdown?: string;
+};
+
+type SarifArtifactLocation = { uri?: string; uriBaseId?: string };
+
+type SarifProperties = {
+  tags?: string[];
+  category?: string;
+  "security-severity"?: string;
+  [key: string]: unknown;
+};
+
+export type SarifRule = {
+  id: string;
+  name?: string;
+  shortDescription?: SarifMessage;
+  fullDescription?: SarifMessage;
+  defaultConfiguration?: { level?: SarifLevel };
+  properties?: SarifProperties;
+};
+
+export type SarifResult = {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: { id?: string; index?: number };
+  kind?: string;
+  level?: SarifLevel;
+  message?: SarifMessage;
+  partialFingerprints?: Record<string, string>;
+  baselineState?: "new" | "unchanged" | "updated" | "absent";
+  suppressions?: Array<{
+    kind?: string;
+    status?: "accepted" | "underReview" | "rejected";
+    justification?: string;
+  }>;
+  locations?: Array<{
+    physicalLocation?: {
+      artifactLocation?: SarifArtifactLocation;
+      region?: { startLine?: number; endLine?: number };
+    };
+  }>;
+  properties?: SarifProperties;
+};
+
+export type SarifRun = {
+  tool: {
+    driver: {
+      name: string;
+      version?: string;
+      informationUri?: string;
+      rules?: SarifRule[];
+    };
+  };
+  invocations?: Array<{ executionSuccessful: boolean; endTimeUtc?: string }>;
+  originalUriBaseIds?: Record<string, SarifArtifactLocation>;
+  versionControlProvenance?: Array<{
+    repositoryUri?: string;
+    revisionId?: string;
+    branch?: string;
+    mappedTo?: { uriBaseId?: string };
+  }>;
+  results?: SarifResult[];
+};
+
+export type SarifLog = {
+  $schema?: string;
+  version: string;
+  runs: SarifRun[];
+};
+
+type StoredFinding = QualityFinding & { tool: string };
+
+const FINGERPRINT_KEY = "codeArchaeology/v1";
+
+const LEVEL_BY_SEVERITY: Record<QualitySeverity, SarifLevel> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+const SEVERITY_BY_LEVEL: Record<SarifLevel, QualitySeverity> = {
+  error: "error",
+  warning: "warning",
+  note: "info",
+  none: "info",
+};
+
+function toSarifRule(
+  id: string,
+  severity: QualitySeverity,
+  category: QualityCategory,
+  name?: string,
+  description?: string,
+): SarifRule {
+  return {
+    id,
+    ...(name ? { name } : {}),
+    shortDescription: { text: name ?? id },
+    ...(description ? { fullDescription: { text: description } } : {}),
+    defaultConfiguration: { level: LEVEL_BY_SEVERITY[severity] },
+    properties: { category, tags: [category] },
+  };
+}
+
+/**
+ * SARIF 2.1.0 log of a quality run (the latest successful one when `runId`
+ * is null), with one SARIF run per tool. The built-in scanner's run lists
+ * metadata for every rule it can report, not only the triggered ones, at the
+ * severities of the quality profile the run applied.
+ */
+export async function buildSarifLog(
+  repositoryId: string,
+  runId: string | null,
+): Promise<SarifLog | null> {
+  const runResult = await query<{
+    id: string;
+    status: string;
+    source: string;
+    profile: QualityProfile | null;
+    commit_sha: string | null;
+    completed_at: Date | null;
+    url: string;
+    default_branch: string | null;
+  }>(
+    `SELECT qr.id, qr.status, qr.source, qr.profile, qr.commit_sha, qr.completed_at, r.url, r.default_branch
+     FROM quality_runs qr
+     JOIN repositories r ON r.id = qr.repository_id
+     WHERE qr.repository_id = $1
+       AND (($2::uuid IS NULL AND qr.status = 'succeeded') OR qr.id = $2)
+     ORDER BY qr.completed_at DESC NULLS LAST, qr.created_at DESC
+     LIMIT 1`,
+    [repositoryId, runId],
+  );
+  const run = runResult.rows[0];
+  if (!run) {
+    return null;
+  }
+
+  const findings = await query<StoredFinding>(
+    `SELECT file_path, line_start, line_end, rule_id, severity, category, message, language, tool,
+        fingerprint, suppressed, suppression_reason, baselined
+     FROM quality_findings
+     WHERE quality_run_id = $1
+     ORDER BY tool, file_path, line_start`,
+    [run.id],
+  );
+
+  const byTool = new Map<string, StoredFinding[]>();
+  if (run.source === "scanner") {
+    byTool.set(QUALITY_TOOL, []);
+  }
+  for (const finding of findings.rows) {
+    const toolFindings = byTool.get(finding.tool) ?? [];
+    toolFindings.push(finding);
+    byTool.set(finding.tool, toolFindings);
+  }
+
+  const runs: SarifRun[] = [];
+  for (const [tool, toolFindings] of byTool) {
+    const rules: SarifRule[] =
+      tool === QUALITY_TOOL
+        ? resolveQualityRules(run.profile).map(({ rule, severity }) =>
+            toSarifRule(
+              rule.id,
+              severity,
+              rule.category,
+              rule.name,
+              rule.description,
+            ),
+          )
+        : [];
+    const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+    const results: SarifResult[] = toolFindings.map((finding) => {
+      let index = ruleIndex.get(finding.rule_id);
+      if (index === undefined) {
+        index = rules.length;
+        rules.push(
+          toSarifRule(finding.rule_id, finding.severity, finding.category),
+        );
+        ruleIndex.set(finding.rule_id, index);
+      }
+
+      return {
+        ruleId: finding.rule_id,
+        ruleIndex: index,
+        level: LEVEL_BY_SEVERITY[finding.severity],
+        message: { text: finding.message },
+        ...(finding.fingerprint
+          ? { partialFingerprints: { [FINGERPRINT_KEY]: finding.fingerprint } }
+          : {}),
+        baselineState: finding.baselined ? "unchanged" : "new",
+        ...(finding.suppressed
+          ? {
+              suppressions: [
+                {
+                  kind: tool === QUALITY_TOOL ? "inSource" : "external",
+                  status: "accepted" as const,
+                  ...(finding.suppression_reason
+                    ? { justification: finding.suppression_reason }
+                    : {}),
+                },
+              ],
+            }
+          : {}),
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: encodeURI(finding.file_path),
+                uriBaseId: "%SRCROOT%",
+              },
+              region: {
+                startLine: finding.line_start,
+                ...(finding.line_end ? { endLine: finding.line_end } : {}),
+              },
+            },
+          },
+        ],
+        properties: { category: finding.category },
+      };
+    });
+
+    runs.push({
+      tool: { driver: { name: tool, rules } },
+      invocations: [
+        {
+          executionSuccessful: run.status === "succeeded",
+          ...(run.completed_at
+            ? { endTimeUtc: new Date(run.completed_at).toISOString() }
+            : {}),
+        },
+      ],
+      ...(run.commit_sha
+        ? {
+            versionControlProvenance: [
+              {
+                repositoryUri: run.url,
+                revisionId: run.commit_sha,
+                ...(run.default_branch ? { branch: run.default_branch } : {}),
+              },
+            ],
+          }
+        : {}),
+      results,
+    });
+  }
+
+  return { $schema: SARIF_SCHEMA, version: SARIF_VERSION, runs };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean) {
+  return value === undefined || check(value);
+}
+
+function isString(value: unknown): boolean {
+  return typeof value === "string";
+}
+
+function isArtifactLocation(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isOptional(value.uri, isString) &&
+    isOptional(value.uriBaseId, isString)
+  );
+}
+
+function hasValidTags(value: unknown): boolean {
+  return isOptional(
+    value,
+    (properties) =>
+      isRecord(properties) && isOptional(properties.tags, Array.isArray),
+  );
+}
+
+function findSarifRuleError(rule: unknown, at: string): string | null {
+  if (!isRecord(rule) || !isString(rule.id)) {
+    return `${at}.id is required.`;
+  }
+  if (!hasValidTags(rule.properties)) {
+    return `${at}.properties.tags must be an array.`;
+  }
+  return null;
+}
+
+function findSarifLocationError(location: unknown, at: string): string | null {
+  if (!isRecord(location)) {
+    return `${at} must be an object.`;
+  }
+  const physical = location.physicalLocation;
+  if (physical === undefined) {
+    return null;
+  }
+  if (!isRecord(physical)) {
+    return `${at}.physicalLocation must be an object.`;
+  }
+  if (!isOptional(physical.artifactLocation, isArtifactLocation)) {
+    return `${at}.physicalLocation.artifactLocation.uri must be a string.`;
+  }
+  const region = physical.region;
+  if (
+    !isOptional(
+      region,
+      (value) =>
+        isRecord(value) &&
+        isOptional(value.startLine, Number.isInteger) &&
+        isOptional(value.endLine, Number.isInteger),
+    )
+  ) {
+    return `${at}.physicalLocation.region lines must be integers.`;
+  }
+  return null;
+}
+
+function findSarifResultError(result: unknown, at: string): string | null {
+  if (!isRecord(result)) {
+    return `${at} must be an object.`;
+  }
+  if (!isOptional(result.ruleId, isString)) {
+    return `${at}.ruleId must be a string.`;
+  }
+  if (!isOptional(result.ruleIndex, Number.isInteger)) {
+    return `${at}.ruleIndex must be an integer.`;
+  }
+  if (
+    !isOptional(
+      result.rule,
+      (rule) =>
+        isRecord(rule) &&
+        isOptional(rule.id, isString) &&
+        isOptional(rule.index, Number.isInteger),
+    )
+  ) {
+    return `${at}.rule must be a reference with a string id.`;
+  }
+  if (
+    !isOptional(result.level, (level) =>
+      Object.hasOwn(SEVERITY_BY_LEVEL, level as string),
+    )
+  ) {
+    return `${at}.level must be one of none, note, warning, error.`;
+  }
+  if (
+    !isOptional(
+      result.message,
+      (message) =>
+        isRecord(message) &&
+        isOptional(message.text, isString) &&
+        isOptional(message.markdown, isString),
+    )
+  ) {
+    return `${at}.message text must be a string.`;
+  }
+  if (
+    !isOptional(
+      result.partialFingerprints,
+      (fingerprints) =>
+        isRecord(fingerprints) && Object.values(fingerprints).every(isString),
+    )
+  ) {
+    return `${at}.partialFingerprints values must be strings.`;
+  }
+  if (
+    !isOptional(
+      result.suppressions,
+      (suppressions) =>
+        Array.isArray(suppressions) &&
+        suppressions.every(
+          (entry) =>
+            isRecord(entry) && isOptional(entry.justification, isString),
+        ),
+    )
+  ) {
+    return `${at}.suppressions must be an array of suppression objects.`;
+  }
+  if (!hasValidTags(result.properties)) {
+    return `${at}.properties.tags must be an array.`;
+  }
+  if (result.locations === undefined) {
+    return null;
+  }
+  if (!Array.isArray(result.locations)) {
+    return `${at}.locations must be an array.`;
+  }
+  for (const [index, location] of result.locations.entries()) {
+    const error = findSarifLocationError(location, `${at}.locations[${index}]`);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/** Returns why `log` cannot be imported, or null when it is usable. */
+export function findSarifLogError(log: unknown): string | null {
+  if (!log || typeof log !== "object") {
+    return "SARIF log must be a JSON object.";
+  }
+  const { version, runs } = log as Partial<SarifLog>;
+  if (version !== SARIF_VERSION) {
+    return `Only SARIF ${SARIF_VERSION} is supported.`;
+  }
+  if (!Array.isArray(runs)) {
+    return "SARIF log must contain a runs array.";
+  }
+  for (const [index, run] of runs.entries()) {
+    const at = `runs[${index}]`;
+    if (typeof run?.tool?.driver?.name !== "string" || !run.tool.driver.name) {
+      return `${at}.tool.driver.name is required.`;
+    }
+    const { rules } = run.tool.driver;
+    if (!isOptional(rules, Array.isArray)) {
+      return `${at}.tool.driver.rules must be an array.`;
+    }
+    for (const [ruleIndex, rule] of (rules ?? []).entries()) {
+      const error = findSarifRuleError(
+        rule,
+        `${at}.tool.driver.rules[${ruleIndex}]`,
+      );
+      if (error) {
+        return error;
+      }
+    }
+    if (
+      !isOptional(
+        run.originalUriBaseIds,
+        (bases) =>
+          isRecord(bases) && Object.values(bases).every(isArtifactLocation),
+      )
+    ) {
+      return `${at}.originalUriBaseIds must map ids to artifact locations.`;
+    }
+    if (
+      !isOptional(
+        run.versionControlProvenance,
+        (provenance) =>
+          Array.isArray(provenance) &&
+          provenance.every(
+            (entry) =>
+              isRecord(entry) &&
+              isOptional(entry.revisionId, isString) &&
+              isOptional(
+                entry.mappedTo,
+                (mappedTo) =>
+                  isRecord(mappedTo) &&
+                  isOptional(mappedTo.uriBaseId, isString),
+              ),
+          ),
+      )
+    ) {
+      return `${at}.versionControlProvenance must be an array of provenance objects.`;
+    }
+    if (run.results === undefined) {
+      continue;
+    }
+    if (!Array.isArray(run.results)) {
+      return `${at}.results must be an array.`;
+    }
+    for (const [resultIndex, result] of run.results.entries()) {
+      const error = findSarifResultError(
+        result,
+        `${at}.results[${resultIndex}]`,
+      );
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+function resolveCategory(
+  rule: SarifRule | undefined,
+  result: SarifResult,
+): QualityCategory {
+  const explicit = result.properties?.category ?? rule?.properties?.category;
+  if (QUALITY_CATEGORIES.includes(explicit as QualityCategory)) {
+    return explicit as QualityCategory;
+  }
+
+  const tags = [
+    ...(rule?.properties?.tags ?? []),
+    ...(result.properties?.tags ?? []),
+  ].map((tag) => String(tag).toLowerCase());
+  if (
+    rule?.properties?.["security-severity"] !== undefined ||
+    tags.some((tag) => tag === "security" || tag.startsWith("external/cwe"))
+  ) {
+    return "security";
+  }
+  if (tags.includes("performance")) {
+    return "performance";
+  }
+  if (
+    tags.some((tag) =>
+      ["bug", "correctness", "reliability", "error-prone"].includes(tag),
+    )
+  ) {
+    return "bug";
+  }
+  return "code_smell";
+}
+
+const SOURCE_ROOT_IDS = ["%SRCROOT%", "SRCROOT"];
+
+function decodeUri(uri: string): string {
+  let decoded = uri.replace(/^file:\/\/[^/]*/i, "");
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // keep the raw URI
+  }
+  return decoded.replace(/\\/g, "/").replace(/^\/([A-Za-z]:\/)/, "$1");
+}
+
+function isAbsolutePath(filePath: string): boolean {
+  return filePath.startsWith("/") || /^[A-Za-z]:\//.test(filePath);
+}
+
+/**
+ * The location's URI with its `uriBaseId` chain applied. Bases the log does
+ * not define in `originalUriBaseIds` are taken to be the repository root.
+ */
+function expandUri(
+  location: SarifArtifactLocation,
+  bases: Record<string, SarifArtifactLocation>,
+  depth = 0,
+): string | null {
+  if (typeof location.uri !== "string") {
+    return null;
+  }
+  const uri = decodeUri(location.uri);
+  const base = location.uriBaseId ? bases[location.uriBaseId] : undefined;
+  if (isAbsolutePath(uri) || !base || depth > 10) {
+    return uri;
+  }
+  const baseUri = expandUri(base, bases, depth + 1);
+  return baseUri ? path.posix.join(baseUri, uri) : uri;
+}
+
+/**
+ * Absolute directories of a run that stand for the repository root: the
+ * base ids `versionControlProvenance` maps the repository to (else
+ * `%SRCROOT%`) and the repository's own clone.
+ */
+function resolveSourceRoots(run: SarifRun, checkoutRoot: string | null) {
+  const bases = run.originalUriBaseIds ?? {};
+  const mapped = (run.versionControlProvenance ?? [])
+    .map((provenance) => provenance.mappedTo?.uriBaseId)
+    .filter((id): id is string => Boolean(id));
+  const roots = (mapped.length ? mapped : SOURCE_ROOT_IDS)
+    .map((id) => {
+      const base = bases[id];
+      return base ? expandUri(base, bases) : null;
+    })
+    .filter((root): root is string => Boolean(root));
+  if (checkoutRoot) {
+    roots.push(checkoutRoot);
+  }
+  return roots
+    .map((root) => root.replace(/\\/g, "/"))
+    .filter(isAbsolutePath)
+    .map((root) => `${root.replace(/\/+$/, "")}/`);
+}
+
+/**
+ * Repository-relative path of a result location, or null when it lies
+ * outside every source root.
+ */
+function toRepositoryPath(
+  location: SarifArtifactLocation,
+  bases: Record<string, SarifArtifactLocation>,
+  roots: string[],
+): string | null {
+  const uri = expandUri(location, bases);
+  if (!uri) {
+    return null;
+  }
+  const root = isAbsolutePath(uri)
+    ? roots.find((candidate) => uri.startsWith(candidate))
+    : "";
+  if (root === undefined) {
+    return null;
+  }
+  const relative = path.posix
+    .normalize(uri.slice(root.length))
+    .replace(/^(?:\.?\/)+/, "");
+  return relative.startsWith("../") ? null : relative;
+}
+
+/**
+ * Maps the results of every SARIF run to quality findings tagged with the
+ * run's tool. Levels map to severities (`note`/`none` → `info`) and the
+ * category comes from the rule's `category` property, its tags
+ * (`security`, `performance`, `correctness`, ...) or `security-severity`.
+ * Locations resolve through `originalUriBaseIds`; paths outside the
+ * repository root (or `checkoutRoot`) are counted as `unresolved`.
+ * Results without a file location or with a `pass` verdict are skipped;
+ * accepted `suppressions` mark the finding as suppressed.
+ */
+export function parseSarifLog(
+  log: SarifLog,
+  checkoutRoot: string | null = null,
+): {
+  findings: QualityFinding[];
+  tools: string[];
+  commitSha: string | null;
+  unresolved: number;
+} {
+  const findings: QualityFinding[] = [];
+  const tools = new Set<string>();
+  let commitSha: string | null = null;
+  let unresolved = 0;
+
+  for (const run of log.runs) {
+    const tool = run.tool.driver.name;
+    tools.add(tool);
+    const rules = run.tool.driver.rules ?? [];
+    const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+    const bases = run.originalUriBaseIds ?? {};
+    const roots = resolveSourceRoots(run, checkoutRoot);
+
+    const revision = run.versionControlProvenance?.[0]?.revisionId;
+    if (!commitSha && revision && /^[0-9a-f]{7,40}$/i.test(revision)) {
+      commitSha = revision.toLowerCase();
+    }
+
+    for (const result of run.results ?? []) {
+      if (result.kind === "pass" || result.kind === "notApplicable") {
+        continue;
+      }
+
+      const location = result.locations?.[0]?.physicalLocation;
+      if (!location?.artifactLocation?.uri) {
+        continue;
+      }
+      const filePath = toRepositoryPath(
+        location.artifactLocation,
+        bases,
+        roots,
+      );
+      if (!filePath) {
+        unresolved += 1;
+        continue;
+      }
+
+      const index = result.ruleIndex ?? result.rule?.index;
+      const ruleId = result.ruleId ?? result.rule?.id;
+      const rule =
+        (index !== undefined ? rules[index] : undefined) ??
+        (ruleId ? rulesById.get(ruleId) : undefined);
+      const level =
+        result.level ?? rule?.defaultConfiguration?.level ?? "warning";
+      const lineStart = Math.max(location.region?.startLine ?? 1, 1);
+      const suppression = result.suppressions?.find(
+        (entry) => !entry.status || entry.status === "accepted",
+      );
+
+      findings.push({
+        file_path: filePath,
+        line_start: lineStart,
+        line_end: location.region?.endLine ?? lineStart,
+        rule_id: ruleId ?? rule?.id ?? "unknown",
+        severity: SEVERITY_BY_LEVEL[level] ?? "warning",
+        category: resolveCategory(rule, result),
+        message:
+          result.message?.text ??
+          result.message?.markdown ??
+          rule?.shortDescription?.text ??
+          ruleId ??
+          "SARIF result",
+        language: null,
+        tool,
+        fingerprint: result.partialFingerprints?.[FINGERPRINT_KEY] ?? null,
+        suppressed: Boolean(suppression),
+        suppression_reason: suppression?.justification ?? null,
+      });
+    }
+  }
+
+  return { findings, tools: Array.from(tools), commitSha, unresolved };
+}
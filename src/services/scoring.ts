@@ -0,0 +1,130 @@
+/**
+ * How raw values are mapped to 0-1 before weighting:
+ * - `max`: value / largest value (one outlier flattens everything else);
+ * - `log`: log(1 + value) / log(1 + largest value);
+ * - `percentile`: rank among all files (ties share their mid rank).
+ */
+export type ScoringNormalization = "max" | "log" | "percentile";
+
+export const SCORING_NORMALIZATIONS: ScoringNormalization[] = [
+  "max",
+  "log",
+  "percentile",
+];
+
+export type ComplexityMetric = "cyclomatic" | "lines";
+
+export type ScoringProfile = {
+  normalization: ScoringNormalization;
+  hotspot: {
+    touches: number;
+    churn: number;
+  };
+  fragility: {
+    recentTouches: number;
+    recentChurn: number;
+    bugfixRatio: number;
+  };
+  /**
+   * When true, hotspot = change frequency x complexity of the latest
+   * complexity snapshot; files without a snapshot score 0.
+   */
+  complexityFactor: boolean;
+  complexityMetric: ComplexityMetric;
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  normalization: "max",
+  hotspot: { touches: 0.6, churn: 0.4 },
+  fragility: { recentTouches: 0.5, recentChurn: 0.3, bugfixRatio: 0.2 },
+  complexityFactor: false,
+  complexityMetric: "cyclomatic",
+};
+
+export type ScoringProfileInput = Partial<
+  Omit<ScoringProfile, "hotspot" | "fragility">
+> & {
+  hotspot?: Partial<ScoringProfile["hotspot"]>;
+  fragility?: Partial<ScoringProfile["fragility"]>;
+};
+
+/** Scales a group of weights to sum to 1; an all-zero group stays zero. */
+function normalizeWeights<T extends Record<string, number>>(weights: T): T {
+  const total = Object.values(weights).reduce((sum, value) => sum + value, 0);
+  if (total <= 0) {
+    return weights;
+  }
+  return Object.fromEntries(
+    Object.entries(weights).map(([key, value]) => [key, value / total]),
+  ) as T;
+}
+
+/**
+ * Fills omitted fields, nested weights included, from the defaults. Each
+ * weight group is scaled to sum to 1 so scores stay within 0-1.
+ */
+export function resolveScoringProfile(
+  input: ScoringProfileInput | null = null,
+): ScoringProfile {
+  return {
+    ...DEFAULT_SCORING_PROFILE,
+    ...input,
+    hotspot: normalizeWeights({
+      ...DEFAULT_SCORING_PROFILE.hotspot,
+      ...input?.hotspot,
+    }),
+    fragility: normalizeWeights({
+      ...DEFAULT_SCORING_PROFILE.fragility,
+      ...input?.fragility,
+    }),
+  };
+}
+
+/** Builds a 0-1 normalizer over the distribution of `values`. */
+export function createNormalizer(
+  values: number[],
+  method: ScoringNormalization,
+): (value: number) => number {
+  const max = values.length ? Math.max(...values) : 0;
+  if (max <= 0) {
+    return () => 0;
+  }
+
+  if (method === "log") {
+    const logMax = Math.log1p(max);
+    return (value) => Math.min(Math.log1p(Math.max(value, 0)) / logMax, 1);
+  }
+
+  if (method === "percentile") {
+    const sorted = [...values].sort((a, b) => a - b);
+    // Number of values below `value` (or at most `value` when inclusive).
+    const countBelow = (value: number, inclusive: boolean) => {
+      let low = 0;
+      let high = sorted.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        const candidate = sorted[mid] ?? 0;
+        if (candidate < value || (inclusive && candidate === value)) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      return low;
+    };
+    return (value) => {
+      if (value <= 0) {
+        return 0;
+      }
+      if (sorted.length === 1) {
+        return 1;
+      }
+      const below = countBelow(value, false);
+      const ties = countBelow(value, true) - below;
+      const rank = below + Math.max(ties - 1, 0) / 2;
+      return Math.min(rank / (sorted.length - 1), 1);
+    };
+  }
+
+  return (value) => Math.min(value / max, 1);
+}
@@ -0,0 +1,197 @@
+import { query } from "../lib/db.js";
+import { highestSemverBump, type SemverBump } from "./classification.js";
+import { listRevisions } from "./git.js";
+import { listReleases } from "./releases.js";
+
+export type ResolvedRef = {
+  ref: string;
+  sha: string;
+  tag: string | null;
+  committed_at: Date;
+};
+
+type Version = {
+  prefix: string;
+  major: number;
+  minor: number;
+  patch: number;
+};
+
+const VERSION_RE = /^(v?)(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/;
+
+export function parseVersion(tag: string): Version | null {
+  const match = tag.trim().match(VERSION_RE);
+  if (!match) {
+    return null;
+  }
+  return {
+    prefix: match[1] ?? "",
+    major: Number(match[2]),
+    minor: Number(match[3]),
+    patch: Number(match[4]),
+  };
+}
+
+export function bumpVersion(version: Version, bump: SemverBump): string {
+  const { prefix, major, minor, patch } = version;
+  switch (bump) {
+    case "major":
+      return `${prefix}${major + 1}.0.0`;
+    case "minor":
+      return `${prefix}${major}.${minor + 1}.0`;
+    case "patch":
+      return `${prefix}${major}.${minor}.${patch + 1}`;
+    default:
+      return `${prefix}${major}.${minor}.${patch}`;
+  }
+}
+
+/**
+ * Resolves `HEAD` (the latest ingested commit), a release tag or an
+ * unambiguous SHA prefix against the stored history.
+ */
+export async function resolveRef(
+  repositoryId: string,
+  ref: string,
+): Promise<ResolvedRef | null> {
+  if (ref === "HEAD") {
+    const head = await query<{ sha: string; committed_at: Date }>(
+      `SELECT sha, committed_at
+       FROM commits
+       WHERE repository_id = $1
+       ORDER BY committed_at DESC
+       LIMIT 1`,
+      [repositoryId],
+    );
+    const row = head.rows[0];
+    return row ? { ref, tag: null, ...row } : null;
+  }
+
+  const tagged = await query<{ sha: string; committed_at: Date }>(
+    `SELECT c.sha, c.committed_at
+     FROM releases r
+     JOIN commits c ON c.repository_id = r.repository_id AND c.sha = r.commit_sha
+     WHERE r.repository_id = $1 AND r.tag = $2`,
+    [repositoryId, ref],
+  );
+  if (tagged.rows[0]) {
+    return { ref, tag: ref, ...tagged.rows[0] };
+  }
+
+  if (!/^[0-9a-f]{4,40}$/i.test(ref)) {
+    return null;
+  }
+  const commits = await query<{ sha: string; committed_at: Date }>(
+    `SELECT sha, committed_at
+     FROM commits
+     WHERE repository_id = $1 AND sha LIKE $2 || '%'
+     LIMIT 2`,
+    [repositoryId, ref.toLowerCase()],
+  );
+  const commit = commits.rows.length === 1 ? commits.rows[0] : undefined;
+  return commit ? { ref, tag: null, ...commit } : null;
+}
+
+/**
+ * The latest release strictly before `to`, used when no `from` is given: the
+ * last one whose commit is an ancestor of `to` (`git rev-list` in the clone
+ * at `repoPath`), else the last one committed before it.
+ */
+export async function findPreviousRelease(
+  repositoryId: string,
+  to: ResolvedRef,
+  repoPath: string | null = null,
+): Promise<ResolvedRef | null> {
+  const releases = await listReleases(repositoryId);
+  const reachable = repoPath
+    ? await listRevisions(repoPath, to.sha).catch(() => null)
+    : null;
+  const ancestors = reachable ? new Set(reachable) : null;
+  const toTime = new Date(to.committed_at).getTime();
+  const previous = releases
+    .filter((release) =>
+      ancestors
+        ? ancestors.has(release.commit_sha) && release.commit_sha !== to.sha
+        : release.released_at &&
+          new Date(release.released_at).getTime() < toTime,
+    )
+    .pop();
+
+  return previous?.released_at
+    ? {
+        ref: previous.tag,
+        sha: previous.commit_sha,
+        tag: previous.tag,
+        committed_at: previous.released_at,
+      }
+    : null;
+}
+
+/**
+ * Semver impact of the commits reachable from `to` but not from `from`
+ * (`git rev-list from..to` in the clone at `repoPath`, else those committed
+ * after `from` up to `to`): the largest bump of their stored
+ * classification/breaking flag and, when `from` is a version tag, the
+ * recommended next version.
+ */
+export async function getSemverImpact(
+  repositoryId: string,
+  from: ResolvedRef | null,
+  to: ResolvedRef,
+  repoPath: string | null = null,
+) {
+  const revisions = repoPath
+    ? await listRevisions(
+        repoPath,
+        from ? `${from.sha}..${to.sha}` : to.sha,
+      ).catch(() => null)
+    : null;
+  const result = await query<{
+    sha: string;
+    committed_at: Date;
+    author_name: string | null;
+    message: string;
+    classification: string;
+    breaking: boolean;
+    semver_bump: SemverBump;
+  }>(
+    `SELECT sha, committed_at, author_name, message, classification, breaking, semver_bump
+     FROM commits
+     WHERE repository_id = $1
+       AND CASE
+         WHEN $4::text[] IS NULL THEN
+           ($2::timestamptz IS NULL OR committed_at > $2) AND committed_at <= $3
+         ELSE sha = ANY($4)
+       END
+     ORDER BY committed_at DESC`,
+    [repositoryId, from?.committed_at ?? null, to.committed_at, revisions],
+  );
+
+  const bump = highestSemverBump(result.rows.map((row) => row.semver_bump));
+  const version = from?.tag ? parseVersion(from.tag) : null;
+  const counts: Record<SemverBump, number> = {
+    major: 0,
+    minor: 0,
+    patch: 0,
+    none: 0,
+  };
+  for (const row of result.rows) {
+    counts[row.semver_bump] += 1;
+  }
+
+  return {
+    from,
+    to,
+    bump,
+    current_version: version ? bumpVersion(version, "none") : null,
+    next_version: version ? bumpVersion(version, bump) : null,
+    commits: {
+      total: result.rows.length,
+      by_bump: counts,
+    },
+    // Only the commits carrying the winning bump justify the recommendation.
+    justification: result.rows.filter(
+      (row) => bump !== "none" && row.semver_bump === bump,
+    ),
+  };
+}
@@ -0,0 +1,175 @@
+import {
+  type BugIntroductionInsert,
+  replaceBugIntroductions,
+} from "../lib/bugIntroductions.js";
+import { query } from "../lib/db.js";
+import { blameLines, getRemovedLines, type RemovedLines } from "./git.js";
+import { loadPathFilter } from "./pathFilters.js";
+import { loadPathResolver } from "./renames.js";
+
+// Removed lines that cannot carry a bug: blank lines, comments, lone braces.
+const TRIVIAL_LINE_RE = /^(?:$|\/\/|#|\/\*|\*|<!--|[{}()[\];,]+$)/;
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * SZZ: the lines a fix commit removed or changed are blamed in the fix's
+ * parent, and the commits that last touched them are recorded as candidate
+ * bug-introducing commits. The most recent SZZ_MAX_FIX_COMMITS fixes are
+ * analyzed; merges and root commits are skipped.
+ */
+export async function computeBugIntroductions(
+  repositoryId: string,
+  repoPath: string,
+) {
+  const maxFixCommits = parseNumberEnv(process.env.SZZ_MAX_FIX_COMMITS, 200);
+
+  const fixes = await query<{ sha: string; committed_at: string }>(
+    `SELECT sha, committed_at
+     FROM commits
+     WHERE repository_id = $1
+       AND classification = 'fix'
+       AND parent_count = 1
+     ORDER BY committed_at DESC
+     LIMIT $2`,
+    [repositoryId, Math.max(maxFixCommits, 0)],
+  );
+
+  const resolver = await loadPathResolver(repositoryId);
+  const pathFilter = await loadPathFilter(repositoryId);
+  const candidates = new Map<string, BugIntroductionInsert>();
+
+  for (const fix of fixes.rows) {
+    let files: RemovedLines[] = [];
+    try {
+      files = await getRemovedLines(repoPath, fix.sha);
+    } catch {
+      // The commit or its parent is missing from the clone.
+      continue;
+    }
+
+    for (const file of files) {
+      const filePath = resolver.resolve(file.filePath, fix.committed_at);
+      if (!pathFilter.includes(filePath)) {
+        continue;
+      }
+      const lines = file.lines
+        .filter((line) => !TRIVIAL_LINE_RE.test(line.text.trim()))
+        .map((line) => line.line);
+      if (!lines.length) {
+        continue;
+      }
+
+      let blamed = new Map<string, number>();
+      try {
+        blamed = await blameLines(
+          repoPath,
+          `${fix.sha}^`,
+          file.filePath,
+          lines,
+        );
+      } catch {
+        continue;
+      }
+
+      for (const [introducingSha, count] of blamed) {
+        const key = `${fix.sha}|${introducingSha}|${filePath}`;
+        const existing = candidates.get(key);
+        if (existing) {
+          existing.lines += count;
+          continue;
+        }
+        candidates.set(key, {
+          fixCommitSha: fix.sha,
+          introducingCommitSha: introducingSha,
+          filePath,
+          lines: count,
+        });
+      }
+    }
+  }
+
+  await replaceBugIntroductions(repositoryId, Array.from(candidates.values()));
+
+  return { fixCommits: fixes.rows.length, candidates: candidates.size };
+}
+
+/**
+ * Files ranked by the fixes their code needed. `defect_inducing_rate` is the
+ * share of the file's commits that introduced a later-fixed line.
+ */
+export async function listDefectFiles(repositoryId: string, limit: number) {
+  const result = await query<{
+    file_path: string;
+    fixes: number;
+    inducing_commits: number;
+    blamed_lines: number;
+    touches: number | null;
+    defect_inducing_rate: number | null;
+    fix_share: number;
+  }>(
+    `WITH totals AS (
+        SELECT COUNT(DISTINCT fix_commit_sha) AS fixes
+        FROM bug_introductions
+        WHERE repository_id = $1
+     )
+     SELECT
+        bi.file_path,
+        COUNT(DISTINCT bi.fix_commit_sha)::int AS fixes,
+        COUNT(DISTINCT bi.introducing_commit_sha)::int AS inducing_commits,
+        SUM(bi.lines)::int AS blamed_lines,
+        fm.touches,
+        LEAST(
+          COUNT(DISTINCT bi.introducing_commit_sha)::float8 / NULLIF(fm.touches, 0),
+          1
+        ) AS defect_inducing_rate,
+        (COUNT(DISTINCT bi.fix_commit_sha)::float8 / NULLIF(MAX(t.fixes), 0)) AS fix_share
+     FROM bug_introductions bi
+     CROSS JOIN totals t
+     LEFT JOIN file_metrics fm
+       ON fm.repository_id = bi.repository_id
+      AND fm.file_path = bi.file_path
+     WHERE bi.repository_id = $1
+     GROUP BY bi.file_path, fm.touches
+     ORDER BY fixes DESC, inducing_commits DESC, bi.file_path
+     LIMIT $2`,
+    [repositoryId, limit],
+  );
+  return result.rows;
+}
+
+/** Authors ranked by how many of their commits introduced later-fixed lines. */
+export async function listDefectAuthors(repositoryId: string, limit: number) {
+  const result = await query<{
+    name: string | null;
+    email: string | null;
+    commits: number;
+    inducing_commits: number;
+    defect_inducing_rate: number;
+  }>(
+    `WITH inducing AS (
+        SELECT DISTINCT introducing_commit_sha AS sha
+        FROM bug_introductions
+        WHERE repository_id = $1
+     )
+     SELECT
+        c.author_name AS name,
+        c.author_email AS email,
+        COUNT(*)::int AS commits,
+        COUNT(i.sha)::int AS inducing_commits,
+        (COUNT(i.sha)::float8 / COUNT(*)) AS defect_inducing_rate
+     FROM commits c
+     LEFT JOIN inducing i ON i.sha = c.sha
+     WHERE c.repository_id = $1
+       AND NOT c.is_merge
+     GROUP BY c.author_name, c.author_email
+     HAVING COUNT(i.sha) > 0
+     ORDER BY inducing_commits DESC, defect_inducing_rate DESC
+     LIMIT $2`,
+    [repositoryId, limit],
+  );
+  return result.rows;
+}
@@ -0,0 +1,104 @@
+export type CommitTrailer = {
+  key: string;
+  value: string;
+};
+
+const TRAILER_RE = /^([A-Za-z][\w-]*|BREAKING CHANGE):\s*(.*)$/;
+const HASH_TRAILER_RE = /^([A-Za-z][\w-]*)\s+(#\d+.*)$/;
+const ISSUE_REF_RE =
+  /\b(close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+((?:[\w.-]+\/[\w.-]+)?#\d+)/gi;
+
+const ISSUE_KEYWORDS: Record<string, string> = {
+  close: "closes",
+  closes: "closes",
+  closed: "closes",
+  fix: "fixes",
+  fixes: "fixes",
+  fixed: "fixes",
+  resolve: "resolves",
+  resolves: "resolves",
+  resolved: "resolves",
+};
+
+/** Splits an identity trailer value such as `Jane Doe <jane@corp>`. */
+export function parseIdentity(value: string): {
+  name: string;
+  email: string | null;
+} {
+  const match = value.match(/^(.*?)\s*<([^>]*)>\s*$/);
+  if (!match) {
+    return { name: value.trim(), email: null };
+  }
+  return { name: (match[1] ?? "").trim(), email: match[2]?.trim() || null };
+}
+
+/** `Co-authored-by` -> `co-authored-by`, `BREAKING CHANGE` -> `breaking-change`. */
+export function normalizeTrailerKey(key: string): string {
+  return key.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+function matchTrailerLine(line: string): CommitTrailer | null {
+  const match = line.match(TRAILER_RE) ?? line.match(HASH_TRAILER_RE);
+  if (!match) {
+    return null;
+  }
+  return { key: normalizeTrailerKey(match[1] ?? ""), value: match[2] ?? "" };
+}
+
+/**
+ * Trailers live in the last paragraph of the body, git-style: every line is
+ * `Key: value` (or `Key #value`), and indented lines continue the previous one.
+ */
+function parseTrailerBlock(body: string): CommitTrailer[] {
+  const paragraphs = body.trim().split(/\n\s*\n/);
+  const lastParagraph = paragraphs[paragraphs.length - 1] ?? "";
+  const trailers: CommitTrailer[] = [];
+
+  for (const line of lastParagraph.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const previous = trailers[trailers.length - 1];
+    if (/^\s/.test(line) && previous) {
+      previous.value = `${previous.value} ${line.trim()}`;
+      continue;
+    }
+
+    const trailer = matchTrailerLine(line);
+    if (!trailer) {
+      return [];
+    }
+    trailers.push(trailer);
+  }
+
+  return trailers;
+}
+
+export function parseCommitTrailers(
+  subject: string,
+  body: string,
+): CommitTrailer[] {
+  const trailers = parseTrailerBlock(body).map((trailer) => ({
+    key: trailer.key,
+    value: trailer.value.trim(),
+  }));
+
+  // Issue references ("Fixes #123") are honoured anywhere in the message.
+  for (const match of `${subject}\n${body}`.matchAll(ISSUE_REF_RE)) {
+    const keyword = ISSUE_KEYWORDS[(match[1] ?? "").toLowerCase()];
+    if (keyword && match[2]) {
+      trailers.push({ key: keyword, value: match[2] });
+    }
+  }
+
+  const seen = new Set<string>();
+  return trailers.filter((trailer) => {
+    const key = `${trailer.key}\u0000${trailer.value}`;
+    if (!trailer.value || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
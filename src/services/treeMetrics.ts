@@ -0,0 +1,310 @@
+import { query } from "../lib/db.js";
+
+type FileRecord = {
+  touches: number;
+  churn: number;
+  hotspotScore: number;
+  bugfixTouches: number;
+  owners: Map<string, number>;
+  functions: number;
+  conditionals: number;
+  maxNesting: number;
+  lines: number;
+  findings: number;
+  bugs: number;
+  securityIssues: number;
+  codeSmells: number;
+};
+
+type TreeAccumulator = FileRecord & {
+  name: string;
+  path: string;
+  type: "directory" | "file";
+  files: number;
+  hotspotTotal: number;
+  children: Map<string, TreeAccumulator>;
+};
+
+export type TreeMetricsNode = {
+  name: string;
+  path: string;
+  type: "directory" | "file";
+  files: number;
+  touches: number;
+  churn: number;
+  hotspot_score: number;
+  hotspot_score_avg: number;
+  bugfix_ratio: number;
+  contributors: number;
+  top_owner: string | null;
+  ownership_concentration: number;
+  functions: number;
+  conditionals: number;
+  max_nesting: number;
+  lines: number;
+  findings: number;
+  bugs: number;
+  security_issues: number;
+  code_smells: number;
+  children?: TreeMetricsNode[];
+};
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function emptyRecord(): FileRecord {
+  return {
+    touches: 0,
+    churn: 0,
+    hotspotScore: 0,
+    bugfixTouches: 0,
+    owners: new Map(),
+    functions: 0,
+    conditionals: 0,
+    maxNesting: 0,
+    lines: 0,
+    findings: 0,
+    bugs: 0,
+    securityIssues: 0,
+    codeSmells: 0,
+  };
+}
+
+function createNode(
+  name: string,
+  path: string,
+  type: "directory" | "file",
+): TreeAccumulator {
+  return {
+    ...emptyRecord(),
+    name,
+    path,
+    type,
+    files: 0,
+    hotspotTotal: 0,
+    children: new Map(),
+  };
+}
+
+function addFile(node: TreeAccumulator, file: FileRecord) {
+  node.files += 1;
+  node.touches += file.touches;
+  node.churn += file.churn;
+  node.hotspotScore = Math.max(node.hotspotScore, file.hotspotScore);
+  node.hotspotTotal += file.hotspotScore;
+  node.bugfixTouches += file.bugfixTouches;
+  for (const [owner, touches] of file.owners) {
+    node.owners.set(owner, (node.owners.get(owner) ?? 0) + touches);
+  }
+  node.functions += file.functions;
+  node.conditionals += file.conditionals;
+  node.maxNesting = Math.max(node.maxNesting, file.maxNesting);
+  node.lines += file.lines;
+  node.findings += file.findings;
+  node.bugs += file.bugs;
+  node.securityIssues += file.securityIssues;
+  node.codeSmells += file.codeSmells;
+}
+
+function toNode(node: TreeAccumulator): TreeMetricsNode {
+  let topOwner: string | null = null;
+  let topTouches = 0;
+  let ownedTouches = 0;
+  for (const [owner, touches] of node.owners) {
+    ownedTouches += touches;
+    if (touches > topTouches) {
+      topOwner = owner;
+      topTouches = touches;
+    }
+  }
+
+  const result: TreeMetricsNode = {
+    name: node.name,
+    path: node.path,
+    type: node.type,
+    files: node.files,
+    touches: node.touches,
+    churn: node.churn,
+    hotspot_score: round(node.hotspotScore),
+    hotspot_score_avg: node.files ? round(node.hotspotTotal / node.files) : 0,
+    bugfix_ratio: node.touches ? round(node.bugfixTouches / node.touches) : 0,
+    contributors: node.owners.size,
+    top_owner: topOwner,
+    ownership_concentration: ownedTouches
+      ? round(topTouches / ownedTouches)
+      : 0,
+    functions: node.functions,
+    conditionals: node.conditionals,
+    max_nesting: node.maxNesting,
+    lines: node.lines,
+    findings: node.findings,
+    bugs: node.bugs,
+    security_issues: node.securityIssues,
+    code_smells: node.codeSmells,
+  };
+
+  if (node.type === "directory") {
+    result.children = Array.from(node.children.values())
+      .sort(
+        (a, b) =>
+          (a.type === b.type ? 0 : a.type === "directory" ? -1 : 1) ||
+          a.name.localeCompare(b.name),
+      )
+      .map(toNode);
+  }
+
+  return result;
+}
+
+/**
+ * Rolls per-file metrics up the directory hierarchy: sums for counts, the
+ * maximum for hotspot score and nesting, touch-weighted bug-fix ratio and the
+ * top owner's share of touches as ownership concentration. Complexity comes
+ * from the latest snapshot commit and findings from the latest successful
+ * quality run. Nodes deeper than `depth` are folded into their ancestor.
+ */
+export async function getTreeMetrics(
+  repositoryId: string,
+  depth: number,
+): Promise<TreeMetricsNode> {
+  const files = new Map<string, FileRecord>();
+  const fileRecord = (filePath: string) => {
+    const existing = files.get(filePath);
+    if (existing) {
+      return existing;
+    }
+    const created = emptyRecord();
+    files.set(filePath, created);
+    return created;
+  };
+
+  const metrics = await query<{
+    file_path: string;
+    touches: number;
+    churn: number;
+    hotspot_score: number;
+    bugfix_ratio: number;
+  }>(
+    `SELECT
+        file_path,
+        touches,
+        churn,
+        hotspot_score::float AS hotspot_score,
+        bugfix_ratio::float AS bugfix_ratio
+     FROM file_metrics
+     WHERE repository_id = $1`,
+    [repositoryId],
+  );
+  for (const row of metrics.rows) {
+    const record = fileRecord(row.file_path);
+    record.touches = row.touches;
+    record.churn = row.churn;
+    record.hotspotScore = row.hotspot_score;
+    record.bugfixTouches = row.bugfix_ratio * row.touches;
+  }
+
+  const ownership = await query<{
+    file_path: string;
+    contributor_name: string;
+    touches: number;
+  }>(
+    `SELECT fo.file_path, c.name AS contributor_name, fo.touches
+     FROM file_ownership fo
+     JOIN contributors c ON c.id = fo.contributor_id
+     WHERE fo.repository_id = $1
+       AND fo.attribution = 'author'`,
+    [repositoryId],
+  );
+  for (const row of ownership.rows) {
+    const owners = fileRecord(row.file_path).owners;
+    owners.set(
+      row.contributor_name,
+      (owners.get(row.contributor_name) ?? 0) + row.touches,
+    );
+  }
+
+  const complexity = await query<{
+    file_path: string;
+    functions: number;
+    conditionals: number;
+    max_nesting: number;
+    lines: number;
+  }>(
+    `WITH latest AS (
+        SELECT cs.commit_sha
+        FROM complexity_snapshots cs
+        JOIN commits c ON c.repository_id = cs.repository_id AND c.sha = cs.commit_sha
+        WHERE cs.repository_id = $1
+        ORDER BY c.committed_at DESC
+        LIMIT 1
+     )
+     SELECT
+        COALESCE(cs.canonical_path, cs.file_path) AS file_path,
+        cs.functions,
+        cs.conditionals,
+        cs.max_nesting,
+        cs.lines
+     FROM complexity_snapshots cs
+     JOIN latest l ON l.commit_sha = cs.commit_sha
+     WHERE cs.repository_id = $1`,
+    [repositoryId],
+  );
+  for (const row of complexity.rows) {
+    const record = fileRecord(row.file_path);
+    record.functions = row.functions;
+    record.conditionals = row.conditionals;
+    record.maxNesting = row.max_nesting;
+    record.lines = row.lines;
+  }
+
+  const quality = await query<{
+    file_path: string;
+    findings_count: number;
+    bugs: number;
+    security_issues: number;
+    code_smells: number;
+  }>(
+    `SELECT qfs.file_path, qfs.findings_count, qfs.bugs, qfs.security_issues, qfs.code_smells
+     FROM quality_file_stats qfs
+     WHERE qfs.quality_run_id = (
+       SELECT id
+       FROM quality_runs
+       WHERE repository_id = $1 AND status = 'succeeded'
+       ORDER BY completed_at DESC NULLS LAST, created_at DESC
+       LIMIT 1
+     )`,
+    [repositoryId],
+  );
+  for (const row of quality.rows) {
+    const record = fileRecord(row.file_path);
+    record.findings = row.findings_count;
+    record.bugs = row.bugs;
+    record.securityIssues = row.security_issues;
+    record.codeSmells = row.code_smells;
+  }
+
+  const root = createNode("", "", "directory");
+  for (const [filePath, record] of files) {
+    const segments = filePath.split("/").filter(Boolean);
+    addFile(root, record);
+
+    let node = root;
+    for (const [index, segment] of segments.entries()) {
+      if (index >= depth) {
+        break;
+      }
+      const isFile = index === segments.length - 1;
+      const childPath = segments.slice(0, index + 1).join("/");
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode(segment, childPath, isFile ? "file" : "directory");
+        node.children.set(segment, child);
+      }
+      addFile(child, record);
+      node = child;
+    }
+  }
+
+  return toNode(root);
+}